@@ -7,6 +7,7 @@ import { NavigationContainer } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { StatusBar } from 'expo-status-bar';
 import ThemeProvider from './src/components/layout/ThemeContext';
+import SettingsProvider from './src/components/layout/SettingsContext';
 import MainMenu     from './src/components/screens/MainMenu';
 import { Credits }  from './src/components/screens/Screen3';
 import Screen1      from './src/components/screens/Screen1';
@@ -14,8 +15,16 @@ import Screen2      from './src/components/screens/Screen2';
 import Screen3      from './src/components/screens/Screen3';
 import Screen31     from './src/components/screens/Screen31';
 import Screen32     from './src/components/screens/Screen32';
+import Screen33     from './src/components/screens/Screen33';
+import Screen34     from './src/components/screens/Screen34';
+import Screen35     from './src/components/screens/Screen35';
+import Screen36     from './src/components/screens/Screen36';
+import Screen37     from './src/components/screens/Screen37';
+import Screen38     from './src/components/screens/Screen38';
+import Screen4      from './src/components/screens/Screen4';
+import Screen5      from './src/components/screens/Screen5';
 
-import { initPitchModel } from './src/utils/pitchDetector';
+import { initPitchModel } from './src/utils/pitchModelLoader';
 
 const Stack = createNativeStackNavigator();
 
@@ -28,46 +37,88 @@ export default function App() {
 
   return (
     <ThemeProvider>
-      <NavigationContainer>
-        <StatusBar style="auto" />
-        <Stack.Navigator initialRouteName="MainMenu">
-          <Stack.Screen
-            name="Screen1"
-            component={Screen1}
-            options={{ title: 'Tuner', headerTitleAlign: 'center' }}
-          />
-          <Stack.Screen
-            name="Screen2"
-            component={Screen2}
-            options={{ title: 'Tutorial', headerTitleAlign: 'center' }}
-          />
-          <Stack.Screen
-            name="Screen3"
-            component={Screen3}
-            options={{ title: 'Settings', headerTitleAlign: 'center' }}
-          />
-          <Stack.Screen
-            name="Screen31"
-            component={Screen31}
-            options={{ title: 'Light/Dark Mode', headerTitleAlign: 'center' }}
-          />
-          <Stack.Screen
-            name="MainMenu"
-            component={MainMenu}
-            options={{ title: 'Piano Tuning App', headerTitleAlign: 'center' }}
-          />
-          <Stack.Screen
-            name="Credits"
-            component={Credits}
-            options={{ title: 'Credits', headerTitleAlign: 'center' }}
-          />
-          <Stack.Screen
-            name="Screen32"
-            component={Screen32}
-            options={{ title: 'Pro Mode', headerTitleAlign: 'center' }}
-          />
-        </Stack.Navigator>
-      </NavigationContainer>
+      <SettingsProvider>
+        <NavigationContainer>
+          <StatusBar style="auto" />
+          <Stack.Navigator initialRouteName="MainMenu">
+            <Stack.Screen
+              name="Screen1"
+              component={Screen1}
+              options={{ title: 'Tuner', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen2"
+              component={Screen2}
+              options={{ title: 'Tutorial', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen3"
+              component={Screen3}
+              options={{ title: 'Settings', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen31"
+              component={Screen31}
+              options={{ title: 'Light/Dark Mode', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="MainMenu"
+              component={MainMenu}
+              options={{ title: 'Piano Tuning App', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Credits"
+              component={Credits}
+              options={{ title: 'Credits', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen32"
+              component={Screen32}
+              options={{ title: 'Pro Mode', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen33"
+              component={Screen33}
+              options={{ title: 'Concert Pitch', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen34"
+              component={Screen34}
+              options={{ title: 'Temperament', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen35"
+              component={Screen35}
+              options={{ title: 'Piano Stretch', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen36"
+              component={Screen36}
+              options={{ title: 'Transposition', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen37"
+              component={Screen37}
+              options={{ title: 'Instrument Range', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen38"
+              component={Screen38}
+              options={{ title: 'String Sets', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen4"
+              component={Screen4}
+              options={{ title: 'Analyze Recording', headerTitleAlign: 'center' }}
+            />
+            <Stack.Screen
+              name="Screen5"
+              component={Screen5}
+              options={{ title: 'Practice History', headerTitleAlign: 'center' }}
+            />
+          </Stack.Navigator>
+        </NavigationContainer>
+      </SettingsProvider>
     </ThemeProvider>
   );
 }
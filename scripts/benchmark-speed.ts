@@ -0,0 +1,114 @@
+// Speed benchmark: the FFT-based YIN difference and autocorrelation against
+// the direct O(N^2) loops they replaced, on the same input.
+//
+//   npm run benchmark:speed -- [--iterations 20]
+//
+// Prints time per call for each window size, the speedup, and the largest
+// difference between the two results (relative to the zero-lag value).
+
+import { autocorrelation, yinDifference } from '../src/utils/fft';
+
+const WINDOW_SIZES = [1024, 2048, 4096, 8192];
+const SAMPLE_RATE = 16000;
+const WARM_UP_CALLS = 5;
+
+// The loops pitchAnalyzer used before the FFT versions
+function yinDifferenceDirect(buffer: Float32Array, out: Float32Array): Float32Array {
+  const half = Math.floor(buffer.length / 2);
+  for (let tau = 0; tau < out.length; tau++) {
+    out[tau] = 0;
+    for (let i = 0; i < half; i++) {
+      const delta = buffer[i] - buffer[i + tau];
+      out[tau] += delta * delta;
+    }
+  }
+  return out;
+}
+
+function autocorrelationDirect(buffer: Float32Array, out: Float32Array): Float32Array {
+  for (let lag = 0; lag < out.length; lag++) {
+    let sum = 0;
+    for (let i = 0; i < buffer.length - lag; i++) {
+      sum += buffer[i] * buffer[i + lag];
+    }
+    out[lag] = sum;
+  }
+  return out;
+}
+
+// A low note with a few harmonics and a little deterministic noise
+function makeInput(size: number): Float32Array {
+  const input = new Float32Array(size);
+  let seed = 12345;
+  for (let i = 0; i < size; i++) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    const noise = (seed / 2147483648 - 0.5) * 0.02;
+    const t = i / SAMPLE_RATE;
+    input[i] = 0.5 * Math.sin(2 * Math.PI * 110 * t) +
+      0.25 * Math.sin(2 * Math.PI * 220 * t) +
+      0.12 * Math.sin(2 * Math.PI * 330 * t) +
+      noise;
+  }
+  return input;
+}
+
+// Mean milliseconds per call
+function time(fn: () => void, iterations: number): number {
+  // Warm up (plans, JIT)
+  for (let i = 0; i < WARM_UP_CALLS; i++) {
+    fn();
+  }
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    fn();
+  }
+  return Number(process.hrtime.bigint() - start) / 1e6 / iterations;
+}
+
+function maxRelativeError(a: Float32Array, b: Float32Array, scale: number): number {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]) / scale);
+  }
+  return max;
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const index = args.indexOf('--iterations');
+  const iterations = index >= 0 ? Number(args[index + 1]) : 20;
+
+  const rows = [
+    '| Function | Window | Direct (ms) | FFT (ms) | Speedup | Max rel. error |',
+    '|---|---:|---:|---:|---:|---:|'
+  ];
+
+  for (const size of WINDOW_SIZES) {
+    const input = makeInput(size);
+    const lags = size / 2;
+
+    const functions = [
+      { name: 'YIN difference', direct: yinDifferenceDirect, fast: yinDifference },
+      { name: 'Autocorrelation', direct: autocorrelationDirect, fast: autocorrelation }
+    ];
+
+    for (const { name, direct, fast } of functions) {
+      const expected = direct(input, new Float32Array(lags));
+      const actual = fast(input, new Float32Array(lags));
+      const scale = Math.max(...expected.map(Math.abs)) || 1;
+
+      const directOut = new Float32Array(lags);
+      const fastOut = new Float32Array(lags);
+      const directMs = time(() => direct(input, directOut), iterations);
+      const fastMs = time(() => fast(input, fastOut), iterations);
+
+      rows.push(`| ${name} | ${size} | ${directMs.toFixed(2)} | ${fastMs.toFixed(2)} | ` +
+        `${(directMs / fastMs).toFixed(1)}x | ${maxRelativeError(expected, actual, scale).toExponential(1)} |`);
+    }
+  }
+
+  console.log(`${iterations} iterations per measurement\n`);
+  console.log(rows.join('\n'));
+}
+
+main();
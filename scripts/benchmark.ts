@@ -0,0 +1,390 @@
+// Offline accuracy benchmark against the TinySOL dataset.
+//
+//   npm run benchmark -- [--instrument Acc] [--limit 100] [--range auto|<preset id>]
+//                        [--estimator auto|yin|autocorrelation|tflite|ensemble|...]
+//                        [--model src/assets/pitch_detector.tflite] [--no-octave-correction]
+//                        [--out benchmark-results]
+//
+// Decodes every WAV listed in src/data/TinySOL_metadata.csv that is present
+// under src/data/audio, runs it through detectPitch and writes a JSON and a
+// Markdown report broken down by instrument, dynamics, fold and retuning.
+//
+// The 'tflite' and 'ensemble' estimators run the model file through
+// node-tflite in place of react-native-fast-tflite. The model only takes
+// 16 kHz audio, so for them every file is resampled to that rate first.
+
+import fs from 'fs';
+import path from 'path';
+import { Interpreter } from 'node-tflite';
+import {
+  detectPitch,
+  initAudioProcessor,
+  resetPitchTracking,
+  setFrequencyRange,
+  setPitchEstimator,
+  setOctaveCorrection,
+  getPitchEstimator,
+  getPitchEstimators,
+  DEFAULT_ESTIMATOR_ID,
+  setReferenceFrequency,
+  DEFAULT_REFERENCE_FREQUENCY
+} from '../src/utils/pitchAnalyzer';
+import { setPitchModel, PitchModel, MODEL_SAMPLE_RATE } from '../src/utils/pitchDetector';
+import { decodeWav } from '../src/utils/wavDecoder';
+import { getInstrumentRange, getRangeForInstrument } from '../src/utils/instrumentRanges';
+
+const ROOT = path.resolve(__dirname, '..');
+const METADATA_PATH = path.join(ROOT, 'src/data/TinySOL_metadata.csv');
+const AUDIO_ROOT = path.join(ROOT, 'src/data/audio');
+const MODEL_PATH = path.join(ROOT, 'src/assets/pitch_detector.tflite');
+
+// Frames analyzed per file, spread over the sustained part of the note
+const FRAMES_PER_FILE = 15;
+const SEGMENT_START = 0.1;
+const SEGMENT_END = 0.7;
+const FRAME_SAMPLES = 8192;
+
+// Zero crossings of the resampling filter on each side
+const RESAMPLE_ZERO_CROSSINGS = 16;
+
+interface Options {
+  instrument: string | null;
+  limit: number;
+  range: string;
+  estimator: string;
+  model: string;
+  octaveCorrection: boolean;
+  out: string;
+}
+
+interface MetadataRow {
+  path: string;
+  fold: string;
+  instrument: string;
+  pitch: string;
+  pitchId: number;
+  dynamics: string;
+  retuned: boolean;
+}
+
+interface FileResult {
+  path: string;
+  instrument: string;
+  dynamics: string;
+  fold: string;
+  retuned: boolean;
+  expected: string;
+  detected: string | null;
+  frequency: number | null;
+  detectionRate: number;
+  confidence: number | null; // Mean over detected frames
+  noteCorrect: boolean;
+  pitchClassCorrect: boolean;
+  octaveError: boolean;
+  centsError: number | null;
+}
+
+interface Summary {
+  files: number;
+  detected: number;
+  noteAccuracy: number;
+  pitchClassAccuracy: number;
+  octaveErrorRate: number;
+  meanAbsCents: number | null;
+  medianAbsCents: number | null;
+}
+
+// Estimators that run the TFLite model
+const MODEL_ESTIMATORS = ['tflite', 'ensemble'];
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    instrument: null,
+    limit: Infinity,
+    range: 'auto',
+    estimator: DEFAULT_ESTIMATOR_ID,
+    model: MODEL_PATH,
+    octaveCorrection: true,
+    out: 'benchmark-results'
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--instrument': options.instrument = value; i++; break;
+      case '--limit': options.limit = Number(value); i++; break;
+      case '--range': options.range = value; i++; break;
+      case '--estimator': options.estimator = value; i++; break;
+      case '--model': options.model = path.resolve(value); i++; break;
+      case '--no-octave-correction': options.octaveCorrection = false; break;
+      case '--out': options.out = value; i++; break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+function readMetadata(): MetadataRow[] {
+  const [header, ...lines] = fs.readFileSync(METADATA_PATH, 'utf8').trim().split(/\r?\n/);
+  const columns = header.split(',');
+  const col = (name: string) => columns.indexOf(name);
+
+  return lines.map(line => {
+    const fields = line.split(',');
+    return {
+      path: fields[col('Path')],
+      fold: fields[col('Fold')],
+      instrument: fields[col('Instrument (abbr.)')],
+      pitch: fields[col('Pitch')],
+      pitchId: Number(fields[col('Pitch ID')]),
+      dynamics: fields[col('Dynamics')],
+      retuned: fields[col('Needed digital retuning')] === 'TRUE'
+    };
+  });
+}
+
+// Run a .tflite file through node-tflite the way the app runs it through
+// react-native-fast-tflite: one float input tensor in, the first output back
+function loadModel(modelPath: string): PitchModel {
+  if (!fs.existsSync(modelPath)) {
+    throw new Error(`No model at ${modelPath} (pass --model <path to pitch_detector.tflite>)`);
+  }
+  const interpreter = new Interpreter(fs.readFileSync(modelPath));
+  interpreter.allocateTensors();
+  const [input] = interpreter.inputs;
+  const [output] = interpreter.outputs;
+
+  return data => {
+    input.copyFrom(data);
+    interpreter.invoke();
+    const result = new Float32Array(output.byteSize / 4);
+    output.copyTo(result);
+    return result;
+  };
+}
+
+// Resample with a Hann-windowed sinc low-pass, so nothing above the new
+// Nyquist frequency folds back into the audio
+function resample(samples: Int16Array, from: number, to: number): Int16Array {
+  if (from === to) return samples;
+  const step = from / to;
+  const cutoff = Math.min(1, to / from); // Fraction of the input Nyquist kept
+  const halfWidth = RESAMPLE_ZERO_CROSSINGS / cutoff;
+  const out = new Int16Array(Math.floor(samples.length / step));
+
+  for (let i = 0; i < out.length; i++) {
+    const centre = i * step;
+    const first = Math.max(0, Math.ceil(centre - halfWidth));
+    const last = Math.min(samples.length - 1, Math.floor(centre + halfWidth));
+    let sum = 0;
+    let weights = 0;
+    for (let j = first; j <= last; j++) {
+      const x = (j - centre) * cutoff;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const weight = sinc * 0.5 * (1 + Math.cos(Math.PI * (j - centre) / halfWidth));
+      sum += samples[j] * weight;
+      weights += weight;
+    }
+    out[i] = Math.max(-32768, Math.min(32767, Math.round(sum / weights)));
+  }
+  return out;
+}
+
+function midiToName(midi: number): string {
+  return `${NOTE_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+async function analyzeFile(row: MetadataRow, options: Options): Promise<FileResult> {
+  const decoded = decodeWav(new Uint8Array(fs.readFileSync(path.join(AUDIO_ROOT, row.path))));
+  const sampleRate = MODEL_ESTIMATORS.includes(options.estimator) ? MODEL_SAMPLE_RATE : decoded.sampleRate;
+  const audio = { samples: resample(decoded.samples, decoded.sampleRate, sampleRate), sampleRate };
+
+  const range = options.range === 'auto'
+    ? getRangeForInstrument(row.instrument)
+    : getInstrumentRange(options.range);
+  setFrequencyRange(range.minFrequency, range.maxFrequency);
+
+  // Start every file from a clean analyzer state
+  resetPitchTracking();
+
+  const frequencies: number[] = [];
+  const confidences: number[] = [];
+  const start = Math.floor(audio.samples.length * SEGMENT_START);
+  const end = Math.floor(audio.samples.length * SEGMENT_END);
+  const step = Math.max(1, Math.floor((end - start) / FRAMES_PER_FILE));
+
+  for (let frame = 0; frame < FRAMES_PER_FILE; frame++) {
+    const frameEnd = Math.min(audio.samples.length, start + frame * step + FRAME_SAMPLES);
+    const frameStart = Math.max(0, frameEnd - FRAME_SAMPLES);
+    const result = await detectPitch(audio.samples.subarray(frameStart, frameEnd), audio.sampleRate);
+    if (result) {
+      frequencies.push(result.frequency);
+      confidences.push(result.confidence);
+    }
+  }
+
+  const expectedFrequency = DEFAULT_REFERENCE_FREQUENCY * Math.pow(2, (row.pitchId - 69) / 12);
+  const frequency = median(frequencies);
+  const detectedMidi = frequency ? Math.round(69 + 12 * Math.log2(frequency / DEFAULT_REFERENCE_FREQUENCY)) : null;
+
+  const noteCorrect = detectedMidi === row.pitchId;
+  const pitchClassCorrect = detectedMidi !== null && (detectedMidi - row.pitchId) % 12 === 0;
+
+  return {
+    path: row.path,
+    instrument: row.instrument,
+    dynamics: row.dynamics,
+    fold: row.fold,
+    retuned: row.retuned,
+    expected: row.pitch,
+    detected: detectedMidi !== null ? midiToName(detectedMidi) : null,
+    frequency: frequency !== null ? Math.round(frequency * 100) / 100 : null,
+    detectionRate: frequencies.length / FRAMES_PER_FILE,
+    confidence: confidences.length
+      ? Math.round(100 * confidences.reduce((a, b) => a + b, 0) / confidences.length) / 100
+      : null,
+    noteCorrect,
+    pitchClassCorrect,
+    octaveError: pitchClassCorrect && !noteCorrect,
+    centsError: noteCorrect && frequency
+      ? Math.round(1200 * Math.log2(frequency / expectedFrequency) * 10) / 10
+      : null
+  };
+}
+
+function summarize(results: FileResult[]): Summary {
+  const ratio = (count: number) => results.length ? Math.round(1000 * count / results.length) / 10 : 0;
+  const cents = results
+    .filter(r => r.centsError !== null)
+    .map(r => Math.abs(r.centsError as number));
+  const mean = cents.length ? cents.reduce((a, b) => a + b, 0) / cents.length : null;
+  const med = median(cents);
+
+  return {
+    files: results.length,
+    detected: results.filter(r => r.detected !== null).length,
+    noteAccuracy: ratio(results.filter(r => r.noteCorrect).length),
+    pitchClassAccuracy: ratio(results.filter(r => r.pitchClassCorrect).length),
+    octaveErrorRate: ratio(results.filter(r => r.octaveError).length),
+    meanAbsCents: mean !== null ? Math.round(mean * 10) / 10 : null,
+    medianAbsCents: med !== null ? Math.round(med * 10) / 10 : null
+  };
+}
+
+function groupBy(results: FileResult[], key: (r: FileResult) => string): { [group: string]: Summary } {
+  const groups: { [group: string]: FileResult[] } = {};
+  for (const result of results) {
+    (groups[key(result)] = groups[key(result)] || []).push(result);
+  }
+  const summaries: { [group: string]: Summary } = {};
+  for (const name of Object.keys(groups).sort()) {
+    summaries[name] = summarize(groups[name]);
+  }
+  return summaries;
+}
+
+function markdownTable(title: string, rows: { [group: string]: Summary }): string {
+  const lines = [
+    `## ${title}`,
+    '',
+    '| Group | Files | Detected | Note acc. % | Pitch class acc. % | Octave err. % | Mean abs cents | Median abs cents |',
+    '|---|---:|---:|---:|---:|---:|---:|---:|'
+  ];
+  for (const [name, s] of Object.entries(rows)) {
+    lines.push(`| ${name} | ${s.files} | ${s.detected} | ${s.noteAccuracy} | ${s.pitchClassAccuracy} | ` +
+      `${s.octaveErrorRate} | ${s.meanAbsCents ?? '–'} | ${s.medianAbsCents ?? '–'} |`);
+  }
+  return lines.join('\n');
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (!getPitchEstimator(options.estimator)) {
+    const ids = getPitchEstimators().map(e => e.id).join(', ');
+    throw new Error(`Unknown estimator "${options.estimator}" (available: ${ids})`);
+  }
+  if (MODEL_ESTIMATORS.includes(options.estimator)) {
+    setPitchModel(loadModel(options.model));
+  }
+  setPitchEstimator(options.estimator);
+  setOctaveCorrection(options.octaveCorrection);
+  setReferenceFrequency(DEFAULT_REFERENCE_FREQUENCY);
+  await initAudioProcessor();
+
+  const rows = readMetadata()
+    .filter(row => !options.instrument || row.instrument === options.instrument);
+  const available = rows.filter(row => fs.existsSync(path.join(AUDIO_ROOT, row.path)));
+  const selected = available.slice(0, options.limit);
+
+  console.log(`${rows.length} files listed, ${available.length} present, analyzing ${selected.length}`);
+
+  const results: FileResult[] = [];
+  for (const [i, row] of selected.entries()) {
+    try {
+      results.push(await analyzeFile(row, options));
+    } catch (err) {
+      console.error(`Failed to analyze ${row.path}:`, err);
+    }
+    if ((i + 1) % 50 === 0) {
+      console.log(`  ${i + 1}/${selected.length}`);
+    }
+  }
+
+  const report = {
+    detector: `detectPitch (${options.estimator})`,
+    range: options.range,
+    octaveCorrection: options.octaveCorrection,
+    referenceFrequency: DEFAULT_REFERENCE_FREQUENCY,
+    model: MODEL_ESTIMATORS.includes(options.estimator) ? path.relative(ROOT, options.model) : null,
+    listed: rows.length,
+    missing: rows.length - available.length,
+    overall: summarize(results),
+    byInstrument: groupBy(results, r => r.instrument),
+    byDynamics: groupBy(results, r => r.dynamics),
+    byFold: groupBy(results, r => r.fold),
+    byRetuning: groupBy(results, r => (r.retuned ? 'retuned' : 'original')),
+    files: results
+  };
+
+  const markdown = [
+    '# TinySOL pitch detection benchmark',
+    '',
+    `Detector: \`${report.detector}\`, range: \`${report.range}\`, ` +
+      `octave correction: ${report.octaveCorrection ? 'on' : 'off'}, A4 = ${report.referenceFrequency} Hz. ` +
+      `${results.length} of ${rows.length} listed files analyzed (${report.missing} not bundled).` +
+      (report.model ? ` Model: \`${report.model}\`, audio resampled to ${MODEL_SAMPLE_RATE} Hz.` : ''),
+    '',
+    markdownTable('Overall', { all: report.overall }),
+    '',
+    markdownTable('By instrument', report.byInstrument),
+    '',
+    markdownTable('By dynamics', report.byDynamics),
+    '',
+    markdownTable('By fold', report.byFold),
+    '',
+    markdownTable('By digital retuning', report.byRetuning),
+    ''
+  ].join('\n');
+
+  const outDir = path.resolve(process.cwd(), options.out);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, 'tinysol-report.json'), JSON.stringify(report, null, 2) + '\n');
+  fs.writeFileSync(path.join(outDir, 'tinysol-report.md'), markdown);
+
+  console.log(markdownTable('Overall', { all: report.overall }));
+  console.log(`Reports written to ${outDir}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
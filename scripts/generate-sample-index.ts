@@ -0,0 +1,142 @@
+// Generate src/data/sampleIndex.ts, the list of bundled TinySOL samples the
+// reference-tone player can use.
+//
+//   npm run samples:index -- [--instrument Acc] [--dynamics pp,mf,ff] [--step 3]
+//
+// React Native can only bundle assets it sees in a static require(), so the
+// index spells out one require per sample. Only files present under
+// src/data/audio are listed, one per pitch and dynamic (the first instance,
+// preferring recordings that needed no retuning). `--step` keeps every Nth
+// semitone to limit the app size; the player pitch-shifts the nearest sample
+// for the notes in between.
+
+import fs from 'fs';
+import path from 'path';
+
+const ROOT = path.resolve(__dirname, '..');
+const METADATA_PATH = path.join(ROOT, 'src/data/TinySOL_metadata.csv');
+const AUDIO_ROOT = path.join(ROOT, 'src/data/audio');
+const OUT_PATH = path.join(ROOT, 'src/data/sampleIndex.ts');
+
+interface Options {
+  instrument: string | null;
+  dynamics: string[];
+  step: number;
+}
+
+interface MetadataRow {
+  path: string;
+  instrument: string;
+  instrumentName: string;
+  pitch: string;
+  pitchId: number;
+  dynamics: string;
+  instance: number;
+  retuned: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = {
+    instrument: null,
+    dynamics: ['pp', 'mf', 'ff'],
+    step: 3
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+    switch (argv[i]) {
+      case '--instrument': options.instrument = value; i++; break;
+      case '--dynamics': options.dynamics = value.split(','); i++; break;
+      case '--step': options.step = Math.max(1, Math.round(Number(value))); i++; break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+function readMetadata(): MetadataRow[] {
+  const [header, ...lines] = fs.readFileSync(METADATA_PATH, 'utf8').trim().split(/\r?\n/);
+  const columns = header.split(',');
+  const col = (name: string) => columns.indexOf(name);
+
+  return lines.map(line => {
+    const fields = line.split(',');
+    return {
+      path: fields[col('Path')],
+      instrument: fields[col('Instrument (abbr.)')],
+      instrumentName: fields[col('Instrument (in full)')],
+      pitch: fields[col('Pitch')],
+      pitchId: Number(fields[col('Pitch ID')]),
+      dynamics: fields[col('Dynamics')],
+      instance: Number(fields[col('Instance ID')]),
+      retuned: fields[col('Needed digital retuning')] === 'TRUE'
+    };
+  });
+}
+
+// One row per instrument, pitch and dynamic, on the kept semitones
+function selectSamples(rows: MetadataRow[], options: Options): MetadataRow[] {
+  const available = rows.filter(row =>
+    (!options.instrument || row.instrument === options.instrument) &&
+    options.dynamics.includes(row.dynamics) &&
+    fs.existsSync(path.join(AUDIO_ROOT, row.path))
+  );
+
+  const chosen = new Map<string, MetadataRow>();
+  for (const row of available) {
+    const key = `${row.instrument}|${row.pitchId}|${row.dynamics}`;
+    const current = chosen.get(key);
+    if (
+      !current ||
+      (current.retuned && !row.retuned) ||
+      (current.retuned === row.retuned && row.instance < current.instance)
+    ) {
+      chosen.set(key, row);
+    }
+  }
+
+  // Keep every `step`th semitone from each instrument's lowest note
+  const lowest = new Map<string, number>();
+  for (const row of chosen.values()) {
+    lowest.set(row.instrument, Math.min(lowest.get(row.instrument) ?? Infinity, row.pitchId));
+  }
+
+  return [...chosen.values()]
+    .filter(row => (row.pitchId - lowest.get(row.instrument)!) % options.step === 0)
+    .sort((a, b) =>
+      a.instrument.localeCompare(b.instrument) ||
+      a.pitchId - b.pitchId ||
+      options.dynamics.indexOf(a.dynamics) - options.dynamics.indexOf(b.dynamics)
+    );
+}
+
+function writeIndex(samples: MetadataRow[], options: Options) {
+  const instruments = new Map(samples.map(row => [row.instrument, row.instrumentName]));
+  const lines = [
+    '// Generated by scripts/generate-sample-index.ts; do not edit by hand.',
+    `// Options: dynamics ${options.dynamics.join(',')}, every ${options.step} semitone(s)` +
+      (options.instrument ? `, ${options.instrument} only` : ''),
+    '',
+    "import type { SampleEntry, SampleInstrument } from '../utils/samplePlayer';",
+    '',
+    'export const SAMPLE_INSTRUMENTS: SampleInstrument[] = [',
+    ...[...instruments].map(([id, name]) => `  { id: '${id}', name: '${name}' },`),
+    '];',
+    '',
+    'export const SAMPLES: SampleEntry[] = [',
+    ...samples.map(row =>
+      `  { instrument: '${row.instrument}', pitchId: ${row.pitchId}, dynamics: '${row.dynamics}', ` +
+      `source: require('./audio/${row.path}') },`
+    ),
+    '];',
+    ''
+  ];
+  fs.writeFileSync(OUT_PATH, lines.join('\n'));
+}
+
+const options = parseArgs(process.argv.slice(2));
+const samples = selectSamples(readMetadata(), options);
+writeIndex(samples, options);
+
+const bytes = samples.reduce((sum, row) => sum + fs.statSync(path.join(AUDIO_ROOT, row.path)).size, 0);
+console.log(`Wrote ${samples.length} samples (${(bytes / 1e6).toFixed(1)} MB) to ${path.relative(ROOT, OUT_PATH)}`);
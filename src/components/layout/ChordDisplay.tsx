@@ -0,0 +1,55 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+
+interface ChordDisplayProps {
+  name: string | null;    // Chord symbol, e.g. "Am/E"; null when the notes don't name a chord
+  quality?: string | null; // e.g. "minor"
+  notes: string[];        // Sounding notes with octaves, lowest first
+  textColor: string;
+}
+
+export default function ChordDisplay({ name, quality, notes, textColor }: ChordDisplayProps) {
+  // A lone note, or notes that form no known chord, are shown as the notes themselves
+  const label = name ?? (notes.length === 1 ? notes[0] : '–');
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.chordLabel, { color: textColor }]}>
+        {label}
+      </Text>
+
+      {name && quality && (
+        <Text style={styles.qualityLabel}>
+          {quality}
+        </Text>
+      )}
+
+      <Text style={[styles.notesLabel, { color: textColor }]}>
+        {notes.length ? notes.join('  ') : ' '}
+      </Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginVertical: 16,
+    minHeight: 140,
+    justifyContent: 'center',
+  },
+  chordLabel: {
+    fontSize: 56,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  qualityLabel: {
+    fontSize: 16,
+    color: 'gray',
+    marginBottom: 8,
+  },
+  notesLabel: {
+    fontSize: 18,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,208 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import {
+  INTERVALS,
+  IntervalQuestion,
+  IntervalGrade,
+  IntervalTallies,
+  formatNoteNumber
+} from '../../utils/intervals';
+
+// Where the current question is: the reference playing, waiting for the answer, or graded
+export type EarTrainerStatus = 'listen' | 'answer' | 'graded';
+
+// Which way the answers go
+export type EarDirections = 'up' | 'down' | 'both';
+
+const DIRECTION_OPTIONS: { id: EarDirections; label: string }[] = [
+  { id: 'up', label: 'Above' },
+  { id: 'down', label: 'Below' },
+  { id: 'both', label: 'Both' }
+];
+
+interface EarTrainerProps {
+  question: IntervalQuestion | null;
+  grade: IntervalGrade | null;
+  status: EarTrainerStatus;
+  tallies: IntervalTallies;
+  directions: EarDirections;
+  drill: boolean;
+  listening: boolean;
+  onNext: () => void;
+  onReplay: () => void;
+  onDirectionsChange: (directions: EarDirections) => void;
+  onDrillChange: (drill: boolean) => void;
+  onResetTallies: () => void;
+  textColor: string;
+  backgroundColor: string;
+}
+
+const formatCents = (cents: number) => `${cents > 0 ? '+' : ''}${Math.round(cents)}¢`;
+
+export default function EarTrainer({
+  question,
+  grade,
+  status,
+  tallies,
+  directions,
+  drill,
+  listening,
+  onNext,
+  onReplay,
+  onDirectionsChange,
+  onDrillChange,
+  onResetTallies,
+  textColor,
+  backgroundColor
+}: EarTrainerProps) {
+  const prompt = question
+    ? `${question.interval.name} ${question.direction === 'up' ? 'above' : 'below'} ${formatNoteNumber(question.reference)}`
+    : 'Sing or play the interval asked for';
+
+  let statusText = listening ? 'Press Next to hear a note' : 'Start listening first';
+  let statusColor = 'gray';
+  if (question && status === 'listen') {
+    statusText = 'Listen…';
+  } else if (question && status === 'answer') {
+    statusText = 'Your turn';
+  } else if (question && grade) {
+    const sung = formatNoteNumber(grade.sung);
+    const heard = grade.heard ? `, a ${grade.heard.name} ${grade.semitones >= 0 ? 'up' : 'down'}` : '';
+    statusText = grade.correct
+      ? `✓ ${sung} (${formatCents(grade.error)})`
+      : `✗ You sang ${sung}${heard}; wanted ${formatNoteNumber(question.target)}`;
+    statusColor = grade.correct ? '#2ecc71' : '#e74c3c';
+  }
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: textColor },
+        selected && { backgroundColor: textColor }
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? backgroundColor : textColor }]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.prompt, { color: textColor }]}>{prompt}</Text>
+      <Text style={[styles.status, { color: statusColor }]}>{statusText}</Text>
+
+      <View style={styles.row}>
+        <Pressable
+          disabled={!question}
+          onPress={onReplay}
+          style={[styles.actionBtn, { borderColor: textColor, borderWidth: 2 }, !question && styles.disabled]}
+        >
+          <Text style={[styles.actionText, { color: textColor }]}>Replay</Text>
+        </Pressable>
+        <Pressable
+          disabled={!listening}
+          onPress={onNext}
+          style={[styles.actionBtn, { backgroundColor: textColor }, !listening && styles.disabled]}
+        >
+          <Text style={[styles.actionText, { color: backgroundColor }]}>Next</Text>
+        </Pressable>
+      </View>
+
+      <View style={styles.row}>
+        {DIRECTION_OPTIONS.map(({ id, label }) =>
+          renderChip(id, label, id === directions, () => onDirectionsChange(id))
+        )}
+        {renderChip('drill', 'Drill weak', drill, () => onDrillChange(!drill))}
+      </View>
+
+      {/* Right answers per interval, coloured by accuracy */}
+      <View style={styles.tallies}>
+        {INTERVALS.map(interval => {
+          const tally = tallies[interval.id];
+          const accuracy = tally?.attempts ? tally.correct / tally.attempts : null;
+          const color = accuracy === null ? 'gray' : accuracy >= 0.8 ? '#2ecc71' : accuracy >= 0.5 ? textColor : '#e74c3c';
+          return (
+            <View key={interval.id} style={styles.tally}>
+              <Text style={[styles.tallyLabel, { color }]}>{interval.short}</Text>
+              <Text style={[styles.tallyValue, { color }]}>
+                {tally?.attempts ? `${tally.correct}/${tally.attempts}` : '–'}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+      <Pressable onPress={onResetTallies}>
+        <Text style={styles.reset}>Reset scores</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 6,
+    marginVertical: 8,
+  },
+  prompt: {
+    fontSize: 18,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  status: {
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  actionBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 24,
+    borderRadius: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  tallies: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 4,
+  },
+  tally: {
+    width: 44,
+    alignItems: 'center',
+  },
+  tallyLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  tallyValue: {
+    fontSize: 11,
+  },
+  reset: {
+    fontSize: 12,
+    color: 'gray',
+    textDecorationLine: 'underline',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,243 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import Svg, { Circle } from 'react-native-svg';
+import {
+  TOLERANCE_OPTIONS,
+  DURATION_OPTIONS,
+  LongToneProgress,
+  LongToneScore
+} from '../../utils/longTone';
+
+const SIZE = 120;
+const STROKE = 8;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+interface LongToneTrainerProps {
+  target: string;         // e.g. "F#4"
+  tolerance: number;      // Cents either side
+  duration: number;       // Seconds
+  progress: LongToneProgress | null; // While running
+  score: LongToneScore | null;       // After the last attempt
+  listening: boolean;
+  onShiftOctave: (delta: number) => void;
+  onToleranceChange: (cents: number) => void;
+  onDurationChange: (seconds: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  textColor: string;
+  backgroundColor: string;
+}
+
+const formatCents = (cents: number) => `${cents > 0 ? '+' : ''}${cents.toFixed(1)}¢`;
+
+export default function LongToneTrainer({
+  target,
+  tolerance,
+  duration,
+  progress,
+  score,
+  listening,
+  onShiftOctave,
+  onToleranceChange,
+  onDurationChange,
+  onStart,
+  onStop,
+  textColor,
+  backgroundColor
+}: LongToneTrainerProps) {
+  const running = progress !== null;
+
+  // The ring fills with elapsed time; its colour shows whether the pitch is in the window
+  const fraction = running ? Math.min(1, progress.elapsed / duration) : score ? 1 : 0;
+  const ringColor = running
+    ? (progress.inWindow ? '#2ecc71' : '#e74c3c')
+    : textColor;
+
+  const renderOptions = (values: number[], selected: number, label: (v: number) => string, onSelect: (v: number) => void) => (
+    <View style={styles.optionRow}>
+      {values.map(value => (
+        <Pressable
+          key={value}
+          disabled={running}
+          onPress={() => onSelect(value)}
+          style={[
+            styles.option,
+            { borderColor: textColor },
+            value === selected && { backgroundColor: textColor },
+            running && styles.disabled
+          ]}
+        >
+          <Text style={[styles.optionText, { color: value === selected ? backgroundColor : textColor }]}>
+            {label(value)}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.ring}>
+        <Svg width={SIZE} height={SIZE}>
+          <Circle
+            cx={SIZE / 2}
+            cy={SIZE / 2}
+            r={RADIUS}
+            stroke="#aaa"
+            strokeOpacity={0.3}
+            strokeWidth={STROKE}
+            fill="none"
+          />
+          <Circle
+            cx={SIZE / 2}
+            cy={SIZE / 2}
+            r={RADIUS}
+            stroke={ringColor}
+            strokeWidth={STROKE}
+            strokeDasharray={`${CIRCUMFERENCE}`}
+            strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+            strokeLinecap="round"
+            fill="none"
+            transform={`rotate(-90 ${SIZE / 2} ${SIZE / 2})`}
+          />
+        </Svg>
+        <View style={styles.ringCenter}>
+          {running ? (
+            <>
+              <Text style={[styles.ringValue, { color: textColor }]}>
+                {progress.inTune.toFixed(1)} s
+              </Text>
+              <Text style={styles.ringLabel}>
+                {progress.deviation === null ? 'no note' : formatCents(progress.deviation)}
+              </Text>
+            </>
+          ) : score ? (
+            <>
+              <Text style={[styles.ringValue, { color: textColor }]}>
+                {Math.round(score.inTunePercent)}%
+              </Text>
+              <Text style={styles.ringLabel}>in tune</Text>
+            </>
+          ) : (
+            <Text style={[styles.ringValue, { color: textColor }]}>{target}</Text>
+          )}
+        </View>
+      </View>
+
+      <View style={styles.controls}>
+        <View style={styles.targetRow}>
+          <Text style={[styles.targetText, { color: textColor }]}>Target {target}</Text>
+          {[-1, 1].map(delta => (
+            <Pressable
+              key={delta}
+              disabled={running}
+              onPress={() => onShiftOctave(delta)}
+              style={[styles.octaveBtn, { backgroundColor: textColor }, running && styles.disabled]}
+            >
+              <Text style={[styles.optionText, { color: backgroundColor }]}>
+                {delta < 0 ? '8vb' : '8va'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {renderOptions(TOLERANCE_OPTIONS, tolerance, v => `±${v}¢`, onToleranceChange)}
+        {renderOptions(DURATION_OPTIONS, duration, v => `${v} s`, onDurationChange)}
+
+        <Pressable
+          disabled={!listening && !running}
+          onPress={running ? onStop : onStart}
+          style={[styles.startBtn, { backgroundColor: textColor }, !listening && !running && styles.disabled]}
+        >
+          <Text style={[styles.startText, { color: backgroundColor }]}>
+            {running ? 'Stop' : listening ? 'Start' : 'Start listening first'}
+          </Text>
+        </Pressable>
+
+        {score && !running && (
+          <Text style={[styles.scoreText, { color: textColor }]}>
+            {`${score.timeInTune.toFixed(1)} of ${score.duration.toFixed(1)} s in tune`}
+            {score.meanDeviation !== null && ` · mean ${formatCents(score.meanDeviation)}`}
+            {score.maxDrift !== null && ` · max drift ${formatCents(score.maxDrift)}`}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginVertical: 8,
+  },
+  ring: {
+    width: SIZE,
+    height: SIZE,
+  },
+  ringCenter: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  ringValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  ringLabel: {
+    fontSize: 12,
+    color: 'gray',
+  },
+  controls: {
+    flex: 1,
+    gap: 6,
+  },
+  targetRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  targetText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  octaveBtn: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    gap: 4,
+  },
+  option: {
+    flex: 1,
+    paddingVertical: 4,
+    borderRadius: 4,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  startBtn: {
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  startText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scoreText: {
+    fontSize: 12,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import {
+  startMetronome,
+  stopMetronome,
+  clampBpm,
+  SUBDIVISIONS,
+  Subdivision,
+  MAX_BEATS_PER_BAR
+} from '../../utils/metronome';
+
+// The running metronome only picks up a new tempo once the taps on – and +
+// have stopped for this long, so it isn't restarted at every step (ms)
+const METRONOME_SETTLE_MS = 400;
+
+interface MetronomeProps {
+  textColor: string;
+  backgroundColor: string;
+}
+
+export default function Metronome({ textColor, backgroundColor }: MetronomeProps) {
+  const [beatsPerBar, setBeatsPerBar] = useState(4);
+  const [bpm, setBpm] = useState(100);
+  const [subdivision, setSubdivision] = useState<Subdivision>(1);
+  const [accent, setAccent] = useState(true);
+  const [metroOn, setMetroOn] = useState(false);
+  const [playedBpm, setPlayedBpm] = useState(bpm); // Tempo the metronome is playing at
+  const [metroBeat, setMetroBeat] = useState<number | null>(null);
+
+  // Follow the tempo straight away while stopped, and once it settles while running
+  useEffect(() => {
+    if (!metroOn) {
+      setPlayedBpm(bpm);
+      return;
+    }
+    const timer = setTimeout(() => setPlayedBpm(bpm), METRONOME_SETTLE_MS);
+    return () => clearTimeout(timer);
+  }, [metroOn, bpm]);
+
+  // A looped bar, rendered again whenever its settings change
+  useEffect(() => {
+    if (!metroOn) {
+      stopMetronome();
+      setMetroBeat(null);
+      return;
+    }
+    startMetronome({ bpm: playedBpm, beatsPerBar, subdivision, accent }, setMetroBeat)
+      .catch(err => console.error('Failed to start metronome:', err));
+  }, [metroOn, playedBpm, beatsPerBar, subdivision, accent]);
+
+  useEffect(() => () => {
+    stopMetronome();
+  }, []);
+
+  return (
+    <>
+      <View style={styles.controlsContainer}>
+        <View style={styles.control}>
+          <Pressable
+            onPress={() => setBeatsPerBar(n => Math.max(1, n - 1))}
+            style={[
+              styles.ctrlBtn,
+              { backgroundColor: textColor }
+            ]}
+          >
+            <Text
+              style={[
+                styles.ctrlText,
+                { color: backgroundColor }
+              ]}
+            >
+              –
+            </Text>
+          </Pressable>
+          <Text
+            style={[
+              styles.ctrlValue,
+              { color: textColor }
+            ]}
+          >
+            {beatsPerBar} per bar
+          </Text>
+          <Pressable
+            onPress={() => setBeatsPerBar(n => Math.min(MAX_BEATS_PER_BAR, n + 1))}
+            style={[
+              styles.ctrlBtn,
+              { backgroundColor: textColor }
+            ]}
+          >
+            <Text
+              style={[
+                styles.ctrlText,
+                { color: backgroundColor }
+              ]}
+            >
+              +
+            </Text>
+          </Pressable>
+        </View>
+
+        <View style={styles.control}>
+          <Pressable
+            onPress={() => setBpm(b => clampBpm(b - 1))}
+            onLongPress={() => setBpm(b => clampBpm(b - 10))}
+            style={[
+              styles.ctrlBtn,
+              { backgroundColor: textColor }
+            ]}
+          >
+            <Text
+              style={[
+                styles.ctrlText,
+                { color: backgroundColor }
+              ]}
+            >
+              –
+            </Text>
+          </Pressable>
+          <Text
+            style={[
+              styles.ctrlValue,
+              { color: textColor }
+            ]}
+          >
+            {bpm} BPM
+          </Text>
+          <Pressable
+            onPress={() => setBpm(b => clampBpm(b + 1))}
+            onLongPress={() => setBpm(b => clampBpm(b + 10))}
+            style={[
+              styles.ctrlBtn,
+              { backgroundColor: textColor }
+            ]}
+          >
+            <Text
+              style={[
+                styles.ctrlText,
+                { color: backgroundColor }
+              ]}
+            >
+              +
+            </Text>
+          </Pressable>
+        </View>
+      </View>
+
+      <Text style={[styles.metroHint, { color: textColor }]}>
+        Hold – or + to change the tempo by 10
+      </Text>
+
+      <View style={styles.metroRow}>
+        {SUBDIVISIONS.map(({ id, name }) => (
+          <Pressable
+            key={id}
+            onPress={() => setSubdivision(id)}
+            style={[
+              styles.metroChip,
+              { borderColor: textColor },
+              id === subdivision && { backgroundColor: textColor }
+            ]}
+          >
+            <Text
+              style={[
+                styles.metroChipText,
+                { color: id === subdivision ? backgroundColor : textColor }
+              ]}
+            >
+              {name}
+            </Text>
+          </Pressable>
+        ))}
+        <Pressable
+          onPress={() => setAccent(on => !on)}
+          style={[
+            styles.metroChip,
+            { borderColor: textColor },
+            accent && { backgroundColor: textColor }
+          ]}
+        >
+          <Text
+            style={[
+              styles.metroChipText,
+              { color: accent ? backgroundColor : textColor }
+            ]}
+          >
+            Accent
+          </Text>
+        </Pressable>
+      </View>
+
+      {/* One dot per beat, the one sounding filled */}
+      <View style={styles.metroRow}>
+        {Array.from({ length: beatsPerBar }, (_, beat) => (
+          <View
+            key={beat}
+            style={[
+              styles.beatDot,
+              { borderColor: textColor },
+              beat === metroBeat && {
+                backgroundColor: beat === 0 && accent ? 'crimson' : textColor
+              }
+            ]}
+          />
+        ))}
+      </View>
+
+      <Pressable
+        onPress={() => setMetroOn(on => !on)}
+        style={[
+          styles.toggleBtn,
+          { backgroundColor: textColor }
+        ]}
+      >
+        <Text
+          style={[
+            styles.toggleText,
+            { color: backgroundColor }
+          ]}
+        >
+          {metroOn ? 'Stop Metronome' : 'Start Metronome'}
+        </Text>
+      </Pressable>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  controlsContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    padding: 20
+  },
+  control: { flexDirection: 'row', alignItems: 'center' },
+
+  ctrlBtn: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  ctrlText: { fontSize: 24, fontWeight: '600' },
+  ctrlValue: { marginHorizontal: 12, fontSize: 16, fontWeight: '500' },
+
+  metroHint: {
+    alignSelf: 'center',
+    fontSize: 11,
+    opacity: 0.6
+  },
+  metroRow: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    gap: 6,
+    marginTop: 10
+  },
+  metroChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 4,
+    borderWidth: 1
+  },
+  metroChipText: { fontSize: 12, fontWeight: '600' },
+  beatDot: {
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 1
+  },
+
+  toggleBtn: {
+    alignSelf: 'center',
+    padding: 12,
+    borderRadius: 6,
+    marginTop: 10
+  },
+  toggleText: { fontSize: 16, fontWeight: '600' }
+});
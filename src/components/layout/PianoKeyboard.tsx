@@ -0,0 +1,164 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet, Dimensions } from 'react-native';
+import { fromNoteNumber } from '../../utils/intervals';
+
+// Full piano range, A0 to C8 as note numbers
+export const LOWEST_KEY = 21;
+export const HIGHEST_KEY = 108;
+
+// White keys across the screen at once; the rest scroll
+const VISIBLE_WHITE_KEYS = 10;
+
+const KEY_WIDTH = Dimensions.get('window').width / VISIBLE_WHITE_KEYS;
+
+interface PianoKeyboardProps {
+  selected: number | null; // Note number of the reference key
+  onKeyPress: (note: string, octave: number) => void;
+  initialKey: number;      // Key scrolled into the middle when nothing is selected
+  textColor: string;
+  isDarkMode: boolean;
+}
+
+interface Key {
+  number: number;
+  note: string;
+  octave: number;
+  left: number; // Offset of the key's left edge
+}
+
+// Lay the keys out once: white keys side by side, black keys straddling the
+// boundary after the white key below them
+const WHITE_KEYS: Key[] = [];
+const BLACK_KEYS: Key[] = [];
+for (let number = LOWEST_KEY; number <= HIGHEST_KEY; number++) {
+  const { note, octave } = fromNoteNumber(number);
+  if (note.includes('#')) {
+    BLACK_KEYS.push({ number, note, octave, left: KEY_WIDTH * (WHITE_KEYS.length - 0.25) });
+  } else {
+    WHITE_KEYS.push({ number, note, octave, left: KEY_WIDTH * WHITE_KEYS.length });
+  }
+}
+
+const CONTENT_WIDTH = KEY_WIDTH * WHITE_KEYS.length;
+
+const findKey = (number: number) =>
+  WHITE_KEYS.find(key => key.number === number) ?? BLACK_KEYS.find(key => key.number === number);
+
+export default function PianoKeyboard({ selected, onKeyPress, initialKey, textColor, isDarkMode }: PianoKeyboardProps) {
+  const scrollRef = useRef<ScrollView>(null);
+  const scrollXRef = useRef(0);
+  const viewWidthRef = useRef(Dimensions.get('window').width);
+
+  const whiteBG = isDarkMode ? '#000' : '#fff';
+  const whiteBorder = isDarkMode ? '#fff' : '#000';
+  const blackBG = isDarkMode ? '#fff' : '#000';
+
+  const scrollToKey = (number: number, animated: boolean) => {
+    const key = findKey(number);
+    if (!key) return;
+    const x = key.left + KEY_WIDTH / 2 - viewWidthRef.current / 2;
+    scrollRef.current?.scrollTo({ x: Math.max(0, Math.min(CONTENT_WIDTH - viewWidthRef.current, x)), animated });
+  };
+
+  // Bring the reference key into view when it changes off screen, e.g. from
+  // the octave buttons
+  useEffect(() => {
+    if (selected === null) return;
+    const key = findKey(selected);
+    if (!key) return;
+    const scrollX = scrollXRef.current;
+    if (key.left < scrollX || key.left + KEY_WIDTH > scrollX + viewWidthRef.current) {
+      scrollToKey(selected, true);
+    }
+  }, [selected]);
+
+  return (
+    <ScrollView
+      ref={scrollRef}
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      scrollEventThrottle={16}
+      onScroll={event => { scrollXRef.current = event.nativeEvent.contentOffset.x; }}
+      onLayout={event => {
+        viewWidthRef.current = event.nativeEvent.layout.width;
+        scrollToKey(selected ?? initialKey, false);
+      }}
+      style={styles.scroll}
+    >
+      <View style={[styles.keyboardContainer, { width: CONTENT_WIDTH }]}>
+        {WHITE_KEYS.map(key => (
+          <Pressable
+            key={key.number}
+            onPress={() => onKeyPress(key.note, key.octave)}
+            style={[
+              styles.whiteKey,
+              {
+                width: KEY_WIDTH,
+                backgroundColor: whiteBG,
+                borderColor: whiteBorder
+              },
+              key.number === selected && styles.selectedKey
+            ]}
+          >
+            <Text style={[styles.whiteLabel, { color: textColor }]}>
+              {/* Octave numbers on the Cs so the position is never lost */}
+              {key.note === 'C' ? `C${key.octave}` : key.note}
+            </Text>
+          </Pressable>
+        ))}
+        {BLACK_KEYS.map(key => (
+          <Pressable
+            key={key.number}
+            onPress={() => onKeyPress(key.note, key.octave)}
+            style={[
+              styles.blackKey,
+              {
+                left: key.left,
+                width: KEY_WIDTH * 0.5,
+                backgroundColor: blackBG
+              },
+              key.number === selected && styles.selectedBlackKey
+            ]}
+          />
+        ))}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    flexGrow: 0,
+  },
+  keyboardContainer: {
+    flexDirection: 'row',
+    position: 'relative',
+    height: 200,
+  },
+  whiteKey: {
+    borderWidth: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+  },
+  blackKey: {
+    position: 'absolute',
+    height: '60%',
+    borderRadius: 3,
+    zIndex: 1,
+  },
+  selectedKey: {
+    backgroundColor: '#e3f2fd',
+    borderColor: '#2196f3',
+    borderWidth: 2,
+  },
+  selectedBlackKey: {
+    backgroundColor: '#2196f3',
+    borderColor: '#64b5f6',
+    borderWidth: 1,
+  },
+  whiteLabel: {
+    alignSelf: 'center',
+    marginBottom: 8,
+    fontSize: 12,
+  },
+});
@@ -8,32 +8,46 @@ const STROKE = 4;
 
 const CHROMA = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
+// Readings below this confidence are drawn faded
+const LOW_CONFIDENCE = 0.5;
+const DIMMED_OPACITY = 0.35;
+
 interface PitchGaugeProps {
   note: string | null;
+  octave?: number | null;
   cents: number;
   hasStableNote: boolean;
+  confidence?: number;  // 0-1, how much to trust the reading
+  tuningLabel?: string; // Active temperament and tonic, e.g. "Vallotti (C)"
 }
 
-export default function PitchGauge({ note, cents, hasStableNote }: PitchGaugeProps) {
+export default function PitchGauge({ note, octave, cents, hasStableNote, confidence = 1, tuningLabel }: PitchGaugeProps) {
   const idx = CHROMA.indexOf(note ?? '');
   const pct = idx < 0 ? 0 : idx / (CHROMA.length - 1);
   const angle = (pct * 180 - 90) * (Math.PI / 180);
 
   const x2 = R + (R - STROKE) * Math.cos(angle);
   const y2 = R + (R - STROKE) * Math.sin(angle);
+  const readingOpacity = note && confidence < LOW_CONFIDENCE ? DIMMED_OPACITY : 1;
 
   return (
     <View style={styles.container}>
-      <Text style={styles.noteLabel}>
-        {note ?? '–'}
+      <Text style={[styles.noteLabel, { opacity: readingOpacity }]}>
+        {note ? `${note}${octave ?? ''}` : '–'}
       </Text>
 
       {hasStableNote && (
-        <Text style={styles.centsLabel}>
+        <Text style={[styles.centsLabel, { opacity: readingOpacity }]}>
           {cents > 0 ? `+${cents.toFixed(1)}¢` : `${cents.toFixed(1)}¢`}
         </Text>
       )}
 
+      {tuningLabel && (
+        <Text style={styles.tuningLabel}>
+          {tuningLabel}
+        </Text>
+      )}
+
       <Svg width={R * 2 + STROKE} height={R + STROKE}>
         <Circle
           cx={R + STROKE / 2}
@@ -49,6 +63,7 @@ export default function PitchGauge({ note, cents, hasStableNote }: PitchGaugePro
           x2={x2}
           y2={y2}
           stroke={hasStableNote ? 'crimson' : '#ccc'}
+          strokeOpacity={readingOpacity}
           strokeWidth={STROKE}
         />
       </Svg>
@@ -72,4 +87,9 @@ const styles = StyleSheet.create({
     color: 'gray',
     marginBottom: 8,
   },
+  tuningLabel: {
+    fontSize: 12,
+    color: 'gray',
+    marginBottom: 8,
+  },
 });
@@ -0,0 +1,195 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, Pressable, Dimensions, StyleSheet, PanResponder } from 'react-native';
+import Svg, { Line, Polyline, Text as SvgText } from 'react-native-svg';
+
+const { width: SCREEN_W } = Dimensions.get('window');
+const WIDTH = SCREEN_W * 0.9;
+const HEIGHT = 150;
+const LABEL_WIDTH = 34;
+
+const CHROMA = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Semitones shown around the middle of the visible readings, at least
+const MIN_SPAN = 4;
+const MAX_SPAN = 14;
+
+// Readings further apart than this are drawn as separate lines (ms)
+const GAP_MS = 250;
+
+// Readings below this confidence are drawn faded
+const LOW_CONFIDENCE = 0.5;
+
+// One reading on the trace
+export interface TracePoint {
+  time: number;       // ms (Date.now())
+  midi: number;       // Fractional note number, so 69.25 is A4 + 25 cents
+  confidence: number; // 0-1
+}
+
+interface PitchTraceProps {
+  points: TracePoint[]; // Oldest first
+  now: number;          // Time of the latest update (ms)
+  windowSeconds?: number;
+  textColor: string;
+}
+
+const noteName = (midi: number) => `${CHROMA[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+
+export default function PitchTrace({ points, now, windowSeconds = 8, textColor }: PitchTraceProps) {
+  // While paused the view stays on `pausedAt`, less however far it was dragged back
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [offset, setOffset] = useState(0);
+  const dragStart = useRef(0);
+  const windowMs = windowSeconds * 1000;
+
+  // Earliest time the view can be dragged back to
+  const oldest = points.length ? points[0].time : now;
+  const maxOffset = pausedAt !== null ? Math.max(0, pausedAt - windowMs - oldest) : 0;
+
+  // The responder is created once; give it the current values
+  const offsetRef = useRef(offset);
+  const pausedRef = useRef(pausedAt);
+  const maxOffsetRef = useRef(maxOffset);
+  offsetRef.current = offset;
+  pausedRef.current = pausedAt;
+  maxOffsetRef.current = maxOffset;
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => {
+        dragStart.current = offsetRef.current;
+      },
+      onPanResponderMove: (_, gesture) => {
+        if (pausedRef.current === null) return;
+        // Dragging right moves back in time
+        const shifted = dragStart.current + gesture.dx / (WIDTH - LABEL_WIDTH) * windowMs;
+        setOffset(Math.min(maxOffsetRef.current, Math.max(0, shifted)));
+      }
+    })
+  ).current;
+
+  const end = (pausedAt ?? now) - offset;
+  const start = end - windowMs;
+  const visible = points.filter(p => p.time >= start && p.time <= end);
+
+  // Centre on the middle of the visible readings
+  let low = 60 - MIN_SPAN / 2;
+  let high = 60 + MIN_SPAN / 2;
+  if (visible.length) {
+    const sorted = visible.map(p => p.midi).sort((a, b) => a - b);
+    const middle = sorted[Math.floor(sorted.length / 2)];
+    low = Math.max(middle - MAX_SPAN / 2, Math.min(middle - MIN_SPAN / 2, sorted[0] - 0.5));
+    high = Math.min(middle + MAX_SPAN / 2, Math.max(middle + MIN_SPAN / 2, sorted[sorted.length - 1] + 0.5));
+  }
+
+  const x = (time: number) => LABEL_WIDTH + (time - start) / windowMs * (WIDTH - LABEL_WIDTH);
+  const y = (midi: number) => HEIGHT - (midi - low) / (high - low) * HEIGHT;
+
+  // Split into runs at silences and at changes between confident and faded
+  const runs: { points: TracePoint[]; faded: boolean }[] = [];
+  visible.forEach((p, i) => {
+    const faded = p.confidence < LOW_CONFIDENCE;
+    const previous = visible[i - 1];
+    const run = runs[runs.length - 1];
+    if (!run || !previous || p.time - previous.time > GAP_MS || run.faded !== faded) {
+      // Start the new run at the previous point so the line stays joined
+      const joined = previous && p.time - previous.time <= GAP_MS ? [previous, p] : [p];
+      runs.push({ points: joined, faded });
+    } else {
+      run.points.push(p);
+    }
+  });
+
+  const gridLines = [];
+  for (let midi = Math.ceil(low); midi <= Math.floor(high); midi++) {
+    gridLines.push(midi);
+  }
+
+  const togglePause = () => {
+    if (pausedAt === null) {
+      setPausedAt(now);
+    } else {
+      setPausedAt(null);
+      setOffset(0);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View {...panResponder.panHandlers}>
+        <Svg width={WIDTH} height={HEIGHT}>
+          {gridLines.map(midi => (
+            <React.Fragment key={midi}>
+              <Line
+                x1={LABEL_WIDTH}
+                y1={y(midi)}
+                x2={WIDTH}
+                y2={y(midi)}
+                stroke="#aaa"
+                strokeWidth={CHROMA[midi % 12].includes('#') ? 0.5 : 1}
+                strokeDasharray={CHROMA[midi % 12].includes('#') ? '3,3' : undefined}
+              />
+              <SvgText x={0} y={y(midi) + 4} fontSize={10} fill="gray">
+                {noteName(midi)}
+              </SvgText>
+            </React.Fragment>
+          ))}
+          {runs.map((run, i) => (
+            <Polyline
+              key={i}
+              points={run.points.map(p => `${x(p.time)},${y(p.midi)}`).join(' ')}
+              fill="none"
+              stroke="crimson"
+              strokeWidth={2}
+              strokeOpacity={run.faded ? 0.35 : 1}
+            />
+          ))}
+        </Svg>
+      </View>
+
+      <View style={styles.controls}>
+        <Pressable
+          onPress={togglePause}
+          style={[styles.button, { borderColor: textColor }]}
+        >
+          <Text style={[styles.buttonText, { color: textColor }]}>
+            {pausedAt === null ? 'Pause' : 'Live'}
+          </Text>
+        </Pressable>
+        {pausedAt !== null && (
+          <Text style={styles.hint}>
+            {offset > 0 ? `${(offset / 1000).toFixed(1)} s back · ` : ''}drag to scroll
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    marginVertical: 8,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  button: {
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    color: 'gray',
+  },
+});
@@ -0,0 +1,102 @@
+import React from 'react';
+import { Text, Pressable, StyleSheet, View } from 'react-native';
+
+// Readings this close to the reference note show as in tune (cents)
+const REFERENCE_IN_TUNE_CENTS = 5;
+
+interface ReferenceNoteDisplayProps {
+  target: string;           // e.g. "A4"
+  frequency: number | null; // Sounding frequency of the reference
+  deviation: number | null; // Cents from the reference to the pitch held, octaves included
+  showModeButtons: boolean; // Long tone and gauge lock, in note mode only
+  longToneOpen: boolean;
+  gaugeLocked: boolean;
+  onClear: () => void;
+  onToggleLongTone: () => void;
+  onToggleLock: () => void;
+  textColor: string;
+  backgroundColor: string;
+}
+
+// Whole semitones from the reference, then the cents left over
+const describeDifference = (deviation: number) => {
+  const semitones = Math.round(deviation / 100);
+  const rest = deviation - 100 * semitones;
+  return `${semitones > 0 ? '+' : ''}${semitones} semitones, ${rest > 0 ? '+' : ''}${rest.toFixed(1)}¢`;
+};
+
+export default function ReferenceNoteDisplay({
+  target,
+  frequency,
+  deviation,
+  showModeButtons,
+  longToneOpen,
+  gaugeLocked,
+  onClear,
+  onToggleLongTone,
+  onToggleLock,
+  textColor,
+  backgroundColor
+}: ReferenceNoteDisplayProps) {
+  const color = deviation === null
+    ? textColor
+    : Math.abs(deviation) <= REFERENCE_IN_TUNE_CENTS ? '#2ecc71' : '#e74c3c';
+
+  const renderButton = (label: string, onPress: () => void) => (
+    <Pressable onPress={onPress} style={[styles.button, { backgroundColor: textColor }]}>
+      <Text style={[styles.buttonText, { color: backgroundColor }]}>{label}</Text>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Reference Note:</Text>
+      <Text style={[styles.note, { color }]}>
+        {target}
+        <Text style={[styles.difference, { color }]}>
+          {` ${frequency?.toFixed(1)} Hz`}
+        </Text>
+        {deviation !== null && (
+          <Text style={[styles.difference, { color }]}>
+            {` (${describeDifference(deviation)})`}
+          </Text>
+        )}
+      </Text>
+      {renderButton('Clear', onClear)}
+      {showModeButtons && renderButton(longToneOpen ? 'Trace' : 'Long Tone', onToggleLongTone)}
+      {showModeButtons && renderButton(gaugeLocked ? 'Unlock' : 'Lock', onToggleLock)}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginTop: 10,
+    marginBottom: 5
+  },
+  label: {
+    fontSize: 14,
+    marginRight: 6
+  },
+  note: {
+    fontSize: 18,
+    fontWeight: '600'
+  },
+  difference: {
+    fontSize: 14,
+    fontWeight: '400'
+  },
+  button: {
+    marginLeft: 10,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 4
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: '600'
+  }
+});
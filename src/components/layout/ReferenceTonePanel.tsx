@@ -0,0 +1,127 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { REFERENCE_TIMBRES, Timbre } from '../../utils/toneGenerator';
+import { SampleInstrument } from '../../utils/samplePlayer';
+
+interface ReferenceTonePanelProps {
+  timbre: Timbre;
+  instruments: SampleInstrument[]; // Recorded instruments on offer
+  instrument: string | null;       // Recorded instrument in use, instead of the timbre
+  dynamicsOptions: string[];       // Dynamics recorded for that instrument
+  dynamics: string;
+  octave: number;
+  volume: number;    // 0-1
+  droneOn: boolean;
+  onTimbreChange: (timbre: Timbre) => void;
+  onInstrumentChange: (instrument: string) => void;
+  onDynamicsChange: (dynamics: string) => void;
+  onShiftOctave: (delta: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onPlay: () => void;
+  onToggleDrone: () => void;
+  textColor: string;
+  backgroundColor: string;
+}
+
+// Volume changes in steps of this
+const VOLUME_STEP = 0.1;
+
+export default function ReferenceTonePanel({
+  timbre,
+  instruments,
+  instrument,
+  dynamicsOptions,
+  dynamics,
+  octave,
+  volume,
+  droneOn,
+  onTimbreChange,
+  onInstrumentChange,
+  onDynamicsChange,
+  onShiftOctave,
+  onVolumeChange,
+  onPlay,
+  onToggleDrone,
+  textColor,
+  backgroundColor
+}: ReferenceTonePanelProps) {
+  const renderButton = (key: string, label: string, onPress: () => void, selected = false) => (
+    <Pressable
+      key={key}
+      onPress={onPress}
+      style={[
+        styles.button,
+        { borderColor: textColor },
+        selected && { backgroundColor: textColor }
+      ]}
+    >
+      <Text style={[styles.buttonText, { color: selected ? backgroundColor : textColor }]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  const changeVolume = (delta: number) => {
+    const next = Math.round((volume + delta) / VOLUME_STEP) * VOLUME_STEP;
+    onVolumeChange(Math.min(1, Math.max(VOLUME_STEP, next)));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {REFERENCE_TIMBRES.map(({ id, name }) =>
+          renderButton(id, name, () => onTimbreChange(id), !instrument && id === timbre)
+        )}
+        {instruments.map(({ id, name }) =>
+          renderButton(id, name, () => onInstrumentChange(id), id === instrument)
+        )}
+      </View>
+
+      <View style={styles.row}>
+        {instrument && dynamicsOptions.map(d =>
+          renderButton(d, d, () => onDynamicsChange(d), d === dynamics)
+        )}
+        {renderButton('down', '8vb', () => onShiftOctave(-1))}
+        <Text style={[styles.value, { color: textColor }]}>Oct {octave}</Text>
+        {renderButton('up', '8va', () => onShiftOctave(1))}
+      </View>
+
+      <View style={styles.row}>
+        {renderButton('quieter', '–', () => changeVolume(-VOLUME_STEP))}
+        <Text style={[styles.value, { color: textColor }]}>{Math.round(volume * 100)}%</Text>
+        {renderButton('louder', '+', () => changeVolume(VOLUME_STEP))}
+        {renderButton('play', 'Tone', onPlay)}
+        {renderButton('drone', droneOn ? 'Stop Drone' : 'Drone', onToggleDrone, droneOn)}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 5,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  button: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  value: {
+    minWidth: 40,
+    fontSize: 12,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
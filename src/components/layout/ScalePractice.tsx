@@ -0,0 +1,236 @@
+import React from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import {
+  SCALE_TYPES,
+  SCALE_TOLERANCE_OPTIONS,
+  SCALE_OCTAVE_OPTIONS,
+  ScaleDirection,
+  ScaleProgress,
+  ScaleNoteResult
+} from '../../utils/scales';
+import { formatNoteNumber } from '../../utils/intervals';
+
+const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const DIRECTION_OPTIONS: { id: ScaleDirection; label: string }[] = [
+  { id: 'up', label: 'Up' },
+  { id: 'updown', label: 'Up & down' }
+];
+
+interface ScalePracticeProps {
+  keyNote: string;
+  octave: number;          // Octave of the starting tonic
+  scaleType: string;       // Id from SCALE_TYPES
+  octaves: number;         // Range
+  direction: ScaleDirection;
+  tolerance: number;       // Cents either side
+  targets: number[];       // Note numbers of the exercise, in order
+  progress: ScaleProgress | null;    // While running
+  results: ScaleNoteResult[] | null; // Notes completed in the last run
+  listening: boolean;
+  onKeyChange: (note: string) => void;
+  onShiftOctave: (delta: number) => void;
+  onScaleTypeChange: (id: string) => void;
+  onOctavesChange: (octaves: number) => void;
+  onDirectionChange: (direction: ScaleDirection) => void;
+  onToleranceChange: (cents: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  textColor: string;
+  backgroundColor: string;
+}
+
+const formatCents = (cents: number) => `${cents > 0 ? '+' : ''}${Math.round(cents)}¢`;
+
+export default function ScalePractice({
+  keyNote,
+  octave,
+  scaleType,
+  octaves,
+  direction,
+  tolerance,
+  targets,
+  progress,
+  results,
+  listening,
+  onKeyChange,
+  onShiftOctave,
+  onScaleTypeChange,
+  onOctavesChange,
+  onDirectionChange,
+  onToleranceChange,
+  onStart,
+  onStop,
+  textColor,
+  backgroundColor
+}: ScalePracticeProps) {
+  const running = progress !== null;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      disabled={running}
+      onPress={onPress}
+      style={[
+        styles.chip,
+        { borderColor: textColor },
+        selected && { backgroundColor: textColor },
+        running && styles.disabled
+      ]}
+    >
+      <Text style={[styles.chipText, { color: selected ? backgroundColor : textColor }]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+
+  // Completed notes by their average, the current one outlined, the rest gray
+  const noteColor = (index: number) => {
+    const result = results?.[index];
+    if (result) {
+      return result.meanDeviation !== null && Math.abs(result.meanDeviation) <= tolerance ? '#2ecc71' : '#e74c3c';
+    }
+    return running && index === progress.index ? textColor : 'gray';
+  };
+
+  let statusText = listening ? `${targets.length} notes` : 'Start listening first';
+  if (running) {
+    statusText = `Note ${progress.index + 1} of ${targets.length}: ${formatNoteNumber(progress.target)}` +
+      (progress.deviation === null ? '' : ` · ${formatCents(progress.deviation)}`);
+  } else if (results && results.length) {
+    const graded = results.filter(r => r.meanDeviation !== null);
+    const meanError = graded.reduce((sum, r) => sum + Math.abs(r.meanDeviation as number), 0) / (graded.length || 1);
+    const seconds = results.reduce((sum, r) => sum + r.seconds, 0);
+    const missed = targets.length - results.length;
+    statusText = `${results.length} of ${targets.length} notes in ${seconds.toFixed(1)} s · ` +
+      `average error ${Math.round(meanError)}¢` +
+      (missed ? ` · ${missed} not held` : '');
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        {KEYS.map(note => renderChip(note, note, note === keyNote, () => onKeyChange(note)))}
+      </View>
+
+      <View style={styles.row}>
+        {SCALE_TYPES.map(({ id, name }) => renderChip(id, name, id === scaleType, () => onScaleTypeChange(id)))}
+      </View>
+
+      <View style={styles.row}>
+        {renderChip('down', '8vb', false, () => onShiftOctave(-1))}
+        <Text style={[styles.value, { color: textColor }]}>{`${keyNote}${octave}`}</Text>
+        {renderChip('up', '8va', false, () => onShiftOctave(1))}
+        {SCALE_OCTAVE_OPTIONS.map(n =>
+          renderChip(`octaves-${n}`, `${n} oct`, n === octaves, () => onOctavesChange(n))
+        )}
+        {DIRECTION_OPTIONS.map(({ id, label }) =>
+          renderChip(id, label, id === direction, () => onDirectionChange(id))
+        )}
+      </View>
+
+      <View style={styles.row}>
+        {SCALE_TOLERANCE_OPTIONS.map(cents =>
+          renderChip(`tolerance-${cents}`, `±${cents}¢`, cents === tolerance, () => onToleranceChange(cents))
+        )}
+      </View>
+
+      <Pressable
+        disabled={!listening && !running}
+        onPress={running ? onStop : onStart}
+        style={[styles.startBtn, { backgroundColor: textColor }, !listening && !running && styles.disabled]}
+      >
+        <Text style={[styles.startText, { color: backgroundColor }]}>
+          {running ? 'Stop' : 'Start'}
+        </Text>
+      </Pressable>
+
+      <Text style={[styles.status, { color: textColor }]}>{statusText}</Text>
+
+      {/* The notes in order, with each completed note's average deviation */}
+      <View style={styles.row}>
+        {targets.map((target, index) => {
+          const result = results?.[index];
+          const current = running && index === progress.index;
+          return (
+            <View
+              key={index}
+              style={[styles.note, { borderColor: noteColor(index) }, current && { borderWidth: 2 }]}
+            >
+              <Text style={[styles.noteName, { color: noteColor(index) }]}>{formatNoteNumber(target)}</Text>
+              <Text style={[styles.noteCents, { color: noteColor(index) }]}>
+                {result && result.meanDeviation !== null
+                  ? formatCents(result.meanDeviation)
+                  : current
+                    ? `${Math.round(progress.held * 100)}%`
+                    // Never steady enough for the tuner to grade, rather than out of tune
+                    : results && !running ? 'not held' : ' '}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: 6,
+    marginVertical: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+  },
+  chip: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  value: {
+    minWidth: 36,
+    fontSize: 12,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  startBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 40,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  startText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  status: {
+    fontSize: 13,
+  },
+  note: {
+    minWidth: 40,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  noteName: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  noteCents: {
+    fontSize: 10,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
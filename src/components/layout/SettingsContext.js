@@ -0,0 +1,361 @@
+import React, { createContext, useEffect, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_REFERENCE_FREQUENCY,
+  normalizeReferenceFrequency,
+  setReferenceFrequency,
+  setTemperament as setAnalyzerTemperament,
+  setStretchOffsets,
+  setFrequencyRange,
+  setPitchEstimator as setAnalyzerEstimator,
+  getPitchEstimator,
+  DEFAULT_ESTIMATOR_ID
+} from '../../utils/pitchAnalyzer';
+import {
+  TEMPERAMENTS,
+  CUSTOM_TEMPERAMENT_ID,
+  EQUAL_TEMPERAMENT_ID,
+  getDegreeDeviations
+} from '../../utils/temperaments';
+import {
+  buildStretchCurve,
+  LOWEST_PIANO_KEY,
+  HIGHEST_PIANO_KEY
+} from '../../utils/inharmonicity';
+import { TRANSPOSITIONS, CONCERT_PITCH_ID } from '../../utils/transposition';
+import {
+  INSTRUMENT_RANGES,
+  DEFAULT_RANGE_ID,
+  CUSTOM_RANGE_ID,
+  getInstrumentRange,
+  normalizeCustomRange
+} from '../../utils/instrumentRanges';
+import {
+  STRING_SETS,
+  DEFAULT_STRING_SET_ID,
+  CUSTOM_STRING_SET_ID,
+  DEFAULT_CUSTOM_STRINGS,
+  getStringSet,
+  getStringRange,
+  sanitizeStrings
+} from '../../utils/stringSets';
+
+export const SettingsContext = createContext();
+
+const STORAGE_KEY = '@pitchdetector/settings';
+
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const DEFAULT_SETTINGS = {
+  concertPitch: DEFAULT_REFERENCE_FREQUENCY,
+  temperament: EQUAL_TEMPERAMENT_ID,
+  temperamentTonic: 'C',
+  customTemperament: new Array(12).fill(0),
+  stretchTuning: false,
+  stretchProfile: 'Piano',
+  stretchProfiles: { Piano: {} },
+  transposition: CONCERT_PITCH_ID,
+  instrumentRange: DEFAULT_RANGE_ID,
+  customRange: normalizeCustomRange(80, 1500),
+  pitchEstimator: DEFAULT_ESTIMATOR_ID,
+  stringSet: DEFAULT_STRING_SET_ID,
+  customStrings: DEFAULT_CUSTOM_STRINGS
+};
+
+function isValidRange(id) {
+  return id === CUSTOM_RANGE_ID || INSTRUMENT_RANGES.some(r => r.id === id);
+}
+
+function isValidStringSet(id) {
+  return id === CUSTOM_STRING_SET_ID || STRING_SETS.some(set => set.id === id);
+}
+
+function isValidTemperament(id) {
+  return id === CUSTOM_TEMPERAMENT_ID || TEMPERAMENTS.some(t => t.id === id);
+}
+
+// Own keys only, so names like "constructor" don't match
+function hasProfile(profiles, name) {
+  return Object.prototype.hasOwnProperty.call(profiles, name);
+}
+
+// Keep only positive coefficients on keys of the piano keyboard
+function sanitizeProfile(profile) {
+  const clean = {};
+  if (!profile || typeof profile !== 'object') return clean;
+  Object.keys(profile).forEach(key => {
+    const midi = Number(key);
+    const coefficient = profile[key];
+    if (midi >= LOWEST_PIANO_KEY && midi <= HIGHEST_PIANO_KEY &&
+        typeof coefficient === 'number' && coefficient > 0) {
+      clean[midi] = coefficient;
+    }
+  });
+  return clean;
+}
+
+// Drop anything unknown or malformed from a stored settings object
+function sanitizeSettings(saved) {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (saved && typeof saved.concertPitch === 'number') {
+    settings.concertPitch = normalizeReferenceFrequency(saved.concertPitch);
+  }
+  if (saved && isValidTemperament(saved.temperament)) {
+    settings.temperament = saved.temperament;
+  }
+  if (saved && PITCH_CLASSES.includes(saved.temperamentTonic)) {
+    settings.temperamentTonic = saved.temperamentTonic;
+  }
+  if (saved && Array.isArray(saved.customTemperament)) {
+    settings.customTemperament = getDegreeDeviations(CUSTOM_TEMPERAMENT_ID, saved.customTemperament);
+  }
+  if (saved && typeof saved.stretchTuning === 'boolean') {
+    settings.stretchTuning = saved.stretchTuning;
+  }
+  if (saved && saved.stretchProfiles && typeof saved.stretchProfiles === 'object') {
+    const profiles = {};
+    Object.keys(saved.stretchProfiles).forEach(name => {
+      profiles[name] = sanitizeProfile(saved.stretchProfiles[name]);
+    });
+    if (Object.keys(profiles).length > 0) {
+      settings.stretchProfiles = profiles;
+    }
+  }
+  if (saved && hasProfile(settings.stretchProfiles, saved.stretchProfile)) {
+    settings.stretchProfile = saved.stretchProfile;
+  } else {
+    settings.stretchProfile = Object.keys(settings.stretchProfiles)[0];
+  }
+  if (saved && TRANSPOSITIONS.some(t => t.id === saved.transposition)) {
+    settings.transposition = saved.transposition;
+  }
+  if (saved && isValidRange(saved.instrumentRange)) {
+    settings.instrumentRange = saved.instrumentRange;
+  }
+  if (saved && saved.customRange && typeof saved.customRange === 'object') {
+    settings.customRange = normalizeCustomRange(
+      saved.customRange.minFrequency,
+      saved.customRange.maxFrequency
+    );
+  }
+  if (saved && getPitchEstimator(saved.pitchEstimator)) {
+    settings.pitchEstimator = saved.pitchEstimator;
+  }
+  if (saved && isValidStringSet(saved.stringSet)) {
+    settings.stringSet = saved.stringSet;
+  }
+  if (saved && saved.customStrings) {
+    settings.customStrings = sanitizeStrings(saved.customStrings);
+  }
+  return settings;
+}
+
+function SettingsProvider({ children }) {
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+  // Set by the tuner while it shows the open strings; not saved
+  const [stringMode, setStringMode] = useState(false);
+
+  // Restore saved settings on launch
+  useEffect(() => {
+    AsyncStorage.getItem(STORAGE_KEY)
+      .then(json => {
+        if (json) {
+          setSettings(sanitizeSettings(JSON.parse(json)));
+        }
+      })
+      .catch(err => console.error('Failed to load settings:', err))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  // Persist every change once the saved values have been restored
+  useEffect(() => {
+    if (!loaded) return;
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+      .catch(err => console.error('Failed to save settings:', err));
+  }, [loaded, settings]);
+
+  // Keep the pitch analyzer in sync with the chosen concert pitch
+  useEffect(() => {
+    setReferenceFrequency(settings.concertPitch);
+  }, [settings.concertPitch]);
+
+  // ...and with the chosen temperament
+  useEffect(() => {
+    setAnalyzerTemperament(
+      settings.temperament,
+      settings.temperamentTonic,
+      settings.customTemperament
+    );
+  }, [settings.temperament, settings.temperamentTonic, settings.customTemperament]);
+
+  // ...and with the active piano stretch curve
+  const activeProfile = settings.stretchProfiles[settings.stretchProfile];
+  useEffect(() => {
+    setStretchOffsets(settings.stretchTuning && activeProfile ? buildStretchCurve(activeProfile) : null);
+  }, [settings.stretchTuning, activeProfile]);
+
+  function setConcertPitch(frequency) {
+    setSettings(s => ({ ...s, concertPitch: normalizeReferenceFrequency(frequency) }));
+  }
+
+  function setTemperament(id) {
+    if (!isValidTemperament(id)) return;
+    setSettings(s => ({ ...s, temperament: id }));
+  }
+
+  function setTemperamentTonic(tonic) {
+    if (!PITCH_CLASSES.includes(tonic)) return;
+    setSettings(s => ({ ...s, temperamentTonic: tonic }));
+  }
+
+  // Set the deviation (cents from ET) of one degree of the custom table
+  function setCustomDeviation(degree, cents) {
+    setSettings(s => {
+      const table = [...s.customTemperament];
+      table[degree] = cents;
+      return { ...s, customTemperament: getDegreeDeviations(CUSTOM_TEMPERAMENT_ID, table) };
+    });
+  }
+
+  function setStretchTuning(enabled) {
+    setSettings(s => ({ ...s, stretchTuning: !!enabled }));
+  }
+
+  // Select a stretch profile, creating an empty one for a new instrument name
+  function selectStretchProfile(name) {
+    const trimmed = (name || '').trim();
+    if (!trimmed) return;
+    setSettings(s => ({
+      ...s,
+      stretchProfile: trimmed,
+      stretchProfiles: hasProfile(s.stretchProfiles, trimmed)
+        ? s.stretchProfiles
+        : { ...s.stretchProfiles, [trimmed]: {} }
+    }));
+  }
+
+  // Store a measured inharmonicity coefficient for a key of the active profile
+  function recordInharmonicity(midi, coefficient) {
+    if (midi < LOWEST_PIANO_KEY || midi > HIGHEST_PIANO_KEY || !(coefficient > 0)) return;
+    setSettings(s => ({
+      ...s,
+      stretchProfiles: {
+        ...s.stretchProfiles,
+        [s.stretchProfile]: { ...s.stretchProfiles[s.stretchProfile], [midi]: coefficient }
+      }
+    }));
+  }
+
+  function clearStretchProfile() {
+    setSettings(s => ({
+      ...s,
+      stretchProfiles: { ...s.stretchProfiles, [s.stretchProfile]: {} }
+    }));
+  }
+
+  // Delete the active profile, keeping at least one
+  function deleteStretchProfile() {
+    setSettings(s => {
+      const { [s.stretchProfile]: removed, ...rest } = s.stretchProfiles;
+      const names = Object.keys(rest);
+      if (names.length === 0) {
+        return { ...s, stretchProfiles: { [s.stretchProfile]: {} } };
+      }
+      return { ...s, stretchProfiles: rest, stretchProfile: names[0] };
+    });
+  }
+
+  // Open strings of the chosen set
+  const openStrings = settings.stringSet === CUSTOM_STRING_SET_ID
+    ? settings.customStrings
+    : getStringSet(settings.stringSet).strings;
+
+  // ...and with the instrument's frequency range, widened in string mode to
+  // reach every string of the set (cello C2 and the bass strings sit below
+  // the general range)
+  const range = settings.instrumentRange === CUSTOM_RANGE_ID
+    ? settings.customRange
+    : getInstrumentRange(settings.instrumentRange);
+  const stringRange = getStringRange(openStrings, settings.concertPitch);
+  const minFrequency = stringMode ? Math.min(range.minFrequency, stringRange.minFrequency) : range.minFrequency;
+  const maxFrequency = stringMode ? Math.max(range.maxFrequency, stringRange.maxFrequency) : range.maxFrequency;
+  useEffect(() => {
+    setFrequencyRange(minFrequency, maxFrequency);
+  }, [minFrequency, maxFrequency]);
+
+  // ...and with the chosen pitch estimator
+  useEffect(() => {
+    setAnalyzerEstimator(settings.pitchEstimator);
+  }, [settings.pitchEstimator]);
+
+  function setPitchEstimator(id) {
+    if (!getPitchEstimator(id)) return;
+    setSettings(s => ({ ...s, pitchEstimator: id }));
+  }
+
+  function setTransposition(id) {
+    if (!TRANSPOSITIONS.some(t => t.id === id)) return;
+    setSettings(s => ({ ...s, transposition: id }));
+  }
+
+  function setInstrumentRange(id) {
+    if (!isValidRange(id)) return;
+    setSettings(s => ({ ...s, instrumentRange: id }));
+  }
+
+  function setCustomRange(minFrequency, maxFrequency) {
+    setSettings(s => ({ ...s, customRange: normalizeCustomRange(minFrequency, maxFrequency) }));
+  }
+
+  function setStringSet(id) {
+    if (!isValidStringSet(id)) return;
+    setSettings(s => ({ ...s, stringSet: id }));
+  }
+
+  function setCustomStrings(strings) {
+    setSettings(s => ({ ...s, customStrings: sanitizeStrings(strings) }));
+  }
+
+  return (
+    <SettingsContext.Provider
+      value={{
+        concertPitch: settings.concertPitch,
+        setConcertPitch,
+        temperament: settings.temperament,
+        setTemperament,
+        temperamentTonic: settings.temperamentTonic,
+        setTemperamentTonic,
+        customTemperament: settings.customTemperament,
+        setCustomDeviation,
+        stretchTuning: settings.stretchTuning,
+        setStretchTuning,
+        stretchProfile: settings.stretchProfile,
+        stretchProfiles: settings.stretchProfiles,
+        selectStretchProfile,
+        recordInharmonicity,
+        clearStretchProfile,
+        deleteStretchProfile,
+        transposition: settings.transposition,
+        setTransposition,
+        instrumentRange: settings.instrumentRange,
+        setInstrumentRange,
+        customRange: settings.customRange,
+        setCustomRange,
+        frequencyRange: range,
+        pitchEstimator: settings.pitchEstimator,
+        setPitchEstimator,
+        stringSet: settings.stringSet,
+        setStringSet,
+        customStrings: settings.customStrings,
+        setCustomStrings,
+        openStrings,
+        setStringMode
+      }}
+    >
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export default SettingsProvider;
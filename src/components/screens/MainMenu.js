@@ -17,6 +17,8 @@ export const MainMenu = ({ navigation }) => {
         {[
           { title: 'TUNER',   to: 'Screen1' },
           { title: 'TUTORIAL',  to: 'Screen2' },
+          { title: 'ANALYZE RECORDING', to: 'Screen4' },
+          { title: 'PRACTICE HISTORY', to: 'Screen5' },
           { title: 'SETTINGS', to: 'Screen3' },
         ].map(({title,to}) => (
           <Pressable
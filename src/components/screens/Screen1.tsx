@@ -4,7 +4,6 @@ import {
   Pressable,
   Text,
   StyleSheet,
-  Dimensions,
   Alert,
   ActivityIndicator
 } from 'react-native';
@@ -14,27 +13,97 @@ import { decode as atob } from 'base-64';
 import { useAudioRecorder } from '@siteed/expo-audio-studio';
 import Theme from '../layout/Theme';
 import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
 import PitchGauge from '../layout/PitchGauge';
-import clickSound from '../../../assets/click.wav';
-import { detectPitch, NotePitch, initAudioProcessor } from '../../utils/pitchAnalyzer';
+import ChordDisplay from '../layout/ChordDisplay';
+import PitchTrace, { TracePoint } from '../layout/PitchTrace';
+import LongToneTrainer from '../layout/LongToneTrainer';
+import EarTrainer from '../layout/EarTrainer';
+import ReferenceTonePanel from '../layout/ReferenceTonePanel';
+import PianoKeyboard, { LOWEST_KEY, HIGHEST_KEY } from '../layout/PianoKeyboard';
+import ScalePractice from '../layout/ScalePractice';
+import Metronome from '../layout/Metronome';
+import ReferenceNoteDisplay from '../layout/ReferenceNoteDisplay';
+import {
+  detectPitch,
+  detectChord,
+  NotePitch,
+  ChordReading,
+  initAudioProcessor,
+  resetPitchTracking,
+  getNoteFrequency,
+  measureInharmonicity
+} from '../../utils/pitchAnalyzer';
+import { nameChord } from '../../utils/chords';
+import {
+  getStringSet,
+  findNearestString,
+  formatString,
+  CUSTOM_STRING_SET_ID,
+  OpenString,
+  StringMatch
+} from '../../utils/stringSets';
+import { createStreamingAnalyzer, StreamFrame, StreamingAnalyzer } from '../../utils/streamingAnalyzer';
+import { createSessionRecorder, SessionRecorder } from '../../utils/practiceSessions';
+import { toNoteNumber, fromNoteNumber } from '../../utils/intervals';
+import { getScaleType } from '../../utils/scales';
+import { getSampleInstruments, getSampleDynamics } from '../../utils/samplePlayer';
+import { getTemperamentLabel } from '../../utils/temperaments';
+import { getTransposition, toWrittenPitch } from '../../utils/transposition';
+import { getLastEnsembleDecision } from '../../utils/pitchDetector';
+import { useLongTone } from '../../hooks/useLongTone';
+import { useEarTraining } from '../../hooks/useEarTraining';
+import { useReferenceTone } from '../../hooks/useReferenceTone';
+import { useScalePractice } from '../../hooks/useScalePractice';
 
 const enumKeys = ['C','C#','D','D#','E','F','F#','G','G#','A','A#','B'];
 
-// Reference note frequencies (A4 = 440Hz standard)
-const NOTE_FREQUENCIES = {
-  'C': 261.63,
-  'C#': 277.18,
-  'D': 293.66,
-  'D#': 311.13,
-  'E': 329.63,
-  'F': 349.23,
-  'F#': 369.99,
-  'G': 392.00,
-  'G#': 415.30,
-  'A': 440.00,
-  'A#': 466.16,
-  'B': 493.88
-};
+// Starting octave of the reference keyboard
+const REFERENCE_OCTAVE = 4;
+
+// Recording sample rate, also passed to the analyzer
+const SAMPLE_RATE = 16000;
+
+// Time between analysis frames, independent of the recorder's event size
+const HOP_SECONDS = 0.015;
+
+// How often the recorder delivers audio (ms)
+const RECORDER_INTERVAL_MS = 50;
+
+// Longest window the analyzer may ask for
+const MAX_ANALYSIS_SAMPLES = 8192;
+
+// How much of the pitch trace is kept for scrolling back (ms)
+const TRACE_HISTORY_MS = 60000;
+
+// Readings that smooth the display (about 0.1 s of frames)
+const NOTE_HISTORY_FRAMES = Math.max(3, Math.round(0.1 / HOP_SECONDS));
+
+// Recency-weighted confidence a note needs to become stable, and to stay stable
+const STABLE_CONFIDENCE = 0.6;
+const HOLD_CONFIDENCE = 0.4;
+
+// What the tuner shows: one note, a chord, the open strings of an instrument,
+// interval ear training or scale practice
+type TunerMode = 'note' | 'chord' | 'strings' | 'intervals' | 'scales';
+
+const TUNER_MODES: { id: TunerMode; label: string }[] = [
+  { id: 'note', label: 'Note' },
+  { id: 'chord', label: 'Chord' },
+  { id: 'strings', label: 'Strings' },
+  { id: 'intervals', label: 'Intervals' },
+  { id: 'scales', label: 'Scales' }
+];
+
+// Deviation treated as in tune on a string (cents)
+const STRING_IN_TUNE_CENTS = 5;
+
+// A chord as shown on screen (written pitch)
+interface DisplayedChord {
+  name: string | null;
+  quality: string | null;
+  notes: string[]; // e.g. ["E3", "A3", "C4"]
+}
 
 // Debug mode - set to true for development, false for production
 const SHOW_DEBUG = false;
@@ -86,26 +155,77 @@ export const Screen1 = () => {
     isDarkMode,
     proMode
   } = useContext(ThemeContext);
+  const {
+    concertPitch,
+    temperament,
+    temperamentTonic,
+    stretchTuning,
+    stretchProfile,
+    recordInharmonicity,
+    transposition: transpositionId,
+    stringSet,
+    openStrings,
+    setStringMode
+  } = useContext(SettingsContext);
+  const transposition = getTransposition(transpositionId);
+  const tuningLabel = getTemperamentLabel(temperament, temperamentTonic) +
+    (stretchTuning ? ` · Stretch (${stretchProfile})` : '') +
+    (transposition.semitones ? ` · Written for ${transposition.id}` : '');
 
-  const [count, setCount] = useState(1);
-  const [bpm, setBpm] = useState(100);
-  const [metroOn, setMetroOn] = useState(false);
   const [listening, setListening] = useState(false);
   const [currentNote, setCurrentNote] = useState<string | null>(null);
+  const [currentOctave, setCurrentOctave] = useState<number | null>(null);
   const [hasStableNote, setHasStableNote] = useState(false);
   const [cents, setCents] = useState(0);
+  const [confidence, setConfidence] = useState(0);
   const [frequency, setFrequency] = useState<number | null>(null);
+  const [tunerMode, setTunerMode] = useState<TunerMode>('note');
+  const [chord, setChord] = useState<DisplayedChord | null>(null);
+  
+  // Every reading for the pitch trace, oldest first; `traceNow` redraws it
+  const traceRef = useRef<TracePoint[]>([]);
+  const [traceNow, setTraceNow] = useState(Date.now());
+  
+  // String mode: the string being tuned (auto-selected unless one is tapped),
+  // and the last stable deviation measured on each string
+  const [targetString, setTargetString] = useState<number | null>(null);
+  const [stringMatch, setStringMatch] = useState<StringMatch | null>(null);
+  const [stringCents, setStringCents] = useState<(number | null)[]>([]);
+  
   const [analyzerReady, setAnalyzerReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [debugData, setDebugData] = useState<any>(null);
   
   // Reference note state
   const [referenceNote, setReferenceNote] = useState<string | null>(null);
-  const [noteDifference, setNoteDifference] = useState<number>(0);
-  const [isAboveReference, setIsAboveReference] = useState<boolean>(false);
+  const [referenceOctave, setReferenceOctave] = useState(REFERENCE_OCTAVE);
+  // Show the deviation from the reference on the gauge instead of the nearest note
+  const [gaugeLocked, setGaugeLocked] = useState(false);
+  
+  // Result of the last string inharmonicity measurement
+  const [measurementText, setMeasurementText] = useState<string | null>(null);
+  
+  // Written-pitch offset, read from the audio callbacks
+  const transpositionRef = useRef(transposition.semitones);
+  transpositionRef.current = transposition.semitones;
+  
+  // String mode state read from the audio callbacks
+  const stringsRef = useRef({ active: false, strings: openStrings as OpenString[], target: targetString });
+  stringsRef.current = { active: tunerMode === 'strings', strings: openStrings, target: targetString };
+  
+  // A new string set starts with no measurements and automatic selection
+  useEffect(() => {
+    setTargetString(null);
+    setStringMatch(null);
+    setStringCents(openStrings.map(() => null));
+  }, [openStrings]);
+  
+  // The detector range reaches every string of the set while they are shown
+  useEffect(() => {
+    setStringMode(tunerMode === 'strings');
+    return () => setStringMode(false);
+  }, [tunerMode]);
 
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
-  const soundRef = useRef<Audio.Sound | null>(null);
   
   // Get audio recorder from hook
   const {
@@ -121,23 +241,34 @@ export const Screen1 = () => {
     isListening: false,
     streamId: '',
     noteHistory: [] as NotePitch[],
+    chordHistory: [] as DisplayedChord[],
     noSignalTimeout: null as NodeJS.Timeout | null,
-    throttleMS: 0,
-    lastProcessTime: 0,
-    stableCount: 0,
     previousNote: '',
     analysisCount: 0,
     volumeLevel: 0
   });
+  
+  // Ring buffer over the recorder stream, cut into overlapping frames
+  const streamRef = useRef<StreamingAnalyzer | null>(null);
+  const analyzeFrameRef = useRef<(frame: StreamFrame) => Promise<void>>(async () => {});
+  
+  if (!streamRef.current) {
+    streamRef.current = createStreamingAnalyzer({
+      sampleRate: SAMPLE_RATE,
+      hopSeconds: HOP_SECONDS,
+      frameSize: MAX_ANALYSIS_SAMPLES,
+      onFrame: frame => analyzeFrameRef.current(frame)
+    });
+  }
+
+  // Readings kept while listening, saved as a practice session on stop
+  const sessionRef = useRef<SessionRecorder | null>(null);
+  if (!sessionRef.current) {
+    sessionRef.current = createSessionRecorder();
+  }
 
   // Initialize audio components
   useEffect(() => {
-    // Initialize metronome
-    (async () => {
-      const { sound } = await Audio.Sound.createAsync(clickSound);
-      soundRef.current = sound;
-    })();
-
     // Initialize pitch analyzer
     (async () => {
       try {
@@ -158,8 +289,6 @@ export const Screen1 = () => {
     
     return () => {
       cleanupAudio();
-      clearInterval(intervalRef.current);
-      soundRef.current?.unloadAsync();
     };
   }, []);
 
@@ -186,95 +315,95 @@ export const Screen1 = () => {
     })();
   }, []);
 
-  // Calculate difference between reference and current note
-  useEffect(() => {
-    if (referenceNote && currentNote && hasStableNote) {
-      // Calculate frequency difference
-      const referenceFreq = NOTE_FREQUENCIES[referenceNote];
-      const noteDistance = calculateNoteDistance(currentNote, referenceNote);
-      
-      setNoteDifference(Math.abs(noteDistance));
-      setIsAboveReference(noteDistance > 0);
-      
-      if (SHOW_DEBUG) {
-        setDebugData(prev => ({
-          ...prev,
-          noteDifference: noteDistance,
-          referenceFreq
-        }));
-      }
-    } else {
-      setNoteDifference(0);
-    }
-  }, [referenceNote, currentNote, hasStableNote, frequency]);
-
-  // Calculate semitone distance between notes
-  const calculateNoteDistance = (note1: string, note2: string): number => {
-    const idx1 = enumKeys.indexOf(note1);
-    const idx2 = enumKeys.indexOf(note2);
-    
-    if (idx1 === -1 || idx2 === -1) return 0;
-    
-    // Calculate distance in semitones
-    let distance = idx1 - idx2;
-    
-    // Wrap around the octave if needed
-    if (distance > 6) distance = distance - 12;
-    if (distance < -6) distance = distance + 12;
-    
-    return distance;
+  // The reference note as a short tone or a drone
+  const referenceTone = useReferenceTone(referenceNote, referenceOctave, transposition.semitones);
+  
+  // Move the reference by octaves, staying on the keyboard
+  const shiftReferenceOctave = (delta: number) => {
+    const octave = referenceOctave + delta;
+    const number = toNoteNumber(referenceNote ?? 'C', octave);
+    if (number < LOWEST_KEY || number > HIGHEST_KEY) return;
+    setReferenceOctave(octave);
   };
-
-  // Metronome setup
-  useEffect(() => {
-    clearInterval(intervalRef.current);
-    const tick = () => {
-      const s = soundRef.current;
-      if (!s) return;
-      s.setPositionAsync(0).then(() => s.playAsync()).catch(() => {});
-    };
-    if (metroOn) {
-      tick();
-      intervalRef.current = setInterval(
-        tick,
-        Math.round(60000 / bpm)
-      );
-    }
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-    };
-  }, [metroOn, bpm]);
-
+  
   // Handle keyboard note selection
-  const handleKeyPress = (note: string) => {
-    console.log(`Pressed ${note}`);
+  const handleKeyPress = (note: string, octave: number) => {
     setReferenceNote(note);
+    setReferenceOctave(octave);
+    referenceTone.play(note, octave);
     
     if (SHOW_DEBUG) {
       setDebugData(prev => ({
         ...prev,
-        selectedReference: note,
-        referenceFreq: NOTE_FREQUENCIES[note]
+        selectedReference: `${note}${octave}`,
+        referenceFreq: referenceTone.getFrequency(note, octave)
       }));
     }
   };
 
+  // Long-tone exercise on the reference note
+  const longTone = useLongTone(referenceNote, referenceOctave);
+
   // Clear reference note
   const clearReferenceNote = () => {
+    longTone.stop(false);
+    longTone.setOpen(false);
+    referenceTone.setDroneOn(false);
+    setGaugeLocked(false);
     setReferenceNote(null);
-    setNoteDifference(0);
     
     if (SHOW_DEBUG) {
       setDebugData(prev => ({
         ...prev,
-        selectedReference: null,
-        noteDifference: null
+        selectedReference: null
       }));
     }
   };
 
+  // Interval ear training, starting from the reference note when there is one
+  const ear = useEarTraining(
+    transposition.semitones,
+    referenceNote ? toNoteNumber(referenceNote, referenceOctave) : null
+  );
+
+  // Scale and arpeggio practice
+  const scale = useScalePractice(REFERENCE_OCTAVE);
+  
+  // The note asked for becomes the reference, so the keyboard and the
+  // reference readout follow the run
+  const scaleTarget = scale.progress?.target ?? null;
+  useEffect(() => {
+    if (scaleTarget === null) return;
+    const { note, octave } = fromNoteNumber(scaleTarget);
+    setReferenceNote(note);
+    setReferenceOctave(octave);
+  }, [scaleTarget]);
+
+  // Measure the inharmonicity of the string currently sounding and add it to the stretch profile
+  const handleMeasureString = () => {
+    if (!frequency || !hasStableNote) {
+      setMeasurementText('Hold a single note to measure it');
+      return;
+    }
+    
+    const measurement = measureInharmonicity(frequency);
+    if (!measurement) {
+      setMeasurementText('Not enough partials found, try again');
+      return;
+    }
+    
+    const midi = Math.round(69 + 12 * Math.log2(measurement.fundamental / concertPitch));
+    const name = `${enumKeys[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+    recordInharmonicity(midi, measurement.coefficient);
+    setMeasurementText(
+      `${name}: B = ${measurement.coefficient.toExponential(2)} (${measurement.partials} partials)`
+    );
+    
+    if (SHOW_DEBUG) {
+      setDebugData(prev => ({ ...prev, inharmonicity: { midi, ...measurement } }));
+    }
+  };
+
   // Fast base64 to PCM conversion for audio processing
   const fastBase64ToPCM = useCallback((base64Data: string): Int16Array => {
     try {
@@ -308,17 +437,22 @@ export const Screen1 = () => {
   const calculateSignalLevel = useCallback((pcmData: Int16Array): number => {
     let sum = 0;
     const sampleSize = Math.min(pcmData.length, 1000); // Use a smaller sample size for speed
+    const offset = pcmData.length - sampleSize; // Most recent samples
     
     for (let i = 0; i < sampleSize; i++) {
-      sum += Math.abs(pcmData[i] / 32768); // Normalize to [0,1]
+      sum += Math.abs(pcmData[offset + i] / 32768); // Normalize to [0,1]
     }
     
     return sum / sampleSize;
   }, []);
 
-  // Process analyzer results with note stability detection
-  const processAnalyzerResult = useCallback((analyzerResult: NotePitch | null) => {
-    if (!analyzerResult) return;
+  // Process analyzer results with note stability detection. Every frame feeds
+  // the history; only the newest frame of a burst updates the display.
+  const processAnalyzerResult = useCallback((concertResult: NotePitch | null, updateDisplay = true) => {
+    if (!concertResult) return;
+    
+    // Everything shown on screen is in the player's written pitch
+    const analyzerResult = toWrittenPitch(concertResult, transpositionRef.current);
     
     // Reset no signal timeout
     if (audioContextRef.current.noSignalTimeout) {
@@ -329,93 +463,275 @@ export const Screen1 = () => {
     audioContextRef.current.noSignalTimeout = setTimeout(() => {
       setHasStableNote(false);
       setCurrentNote(null);
+      setCurrentOctave(null);
       setCents(0);
+      setConfidence(0);
       setFrequency(null);
       audioContextRef.current.noteHistory = [];
-      audioContextRef.current.stableCount = 0;
     }, 2000);
     
+    // Every frame goes on the trace, before smoothing
+    const trace = traceRef.current;
+    const now = Date.now();
+    trace.push({
+      time: now,
+      midi: 12 * (analyzerResult.octave + 1) + enumKeys.indexOf(analyzerResult.note) + analyzerResult.cents / 100,
+      confidence: analyzerResult.confidence
+    });
+    while (trace.length && now - trace[0].time > TRACE_HISTORY_MS) {
+      trace.shift();
+    }
+    
     // Add to history (short history for low latency)
     audioContextRef.current.noteHistory.push(analyzerResult);
     
     // Keep only recent history
-    if (audioContextRef.current.noteHistory.length > 3) {
+    if (audioContextRef.current.noteHistory.length > NOTE_HISTORY_FRAMES) {
       audioContextRef.current.noteHistory.shift();
     }
     
-    // Calculate weighted average with more recent samples weighted higher
+    // Recency-weighted confidence behind each note, keyed by full name ("A2")
+    // so an octave jump counts as a different note
+    const history = audioContextRef.current.noteHistory;
+    const noteConfidence: Record<string, number> = {};
+    let totalRecency = 0;
+    
+    for (let i = 0; i < history.length; i++) {
+      const recency = i + 1; // More weight to recent samples
+      const pitch = history[i];
+      const name = `${pitch.note}${pitch.octave}`;
+      
+      noteConfidence[name] = (noteConfidence[name] || 0) + recency * pitch.confidence;
+      totalRecency += recency;
+    }
+    
+    // Find the best supported note
+    let bestName = `${analyzerResult.note}${analyzerResult.octave}`;
+    let bestSupport = 0;
+    
+    for (const [name, support] of Object.entries(noteConfidence)) {
+      if (support > bestSupport) {
+        bestSupport = support;
+        bestName = name;
+      }
+    }
+    
+    // 0-1: how confidently the recent readings agree on this note
+    const noteSupport = bestSupport / totalRecency;
+    
+    // Weighted average of that note's readings, with more recent and more
+    // confident readings counting more
     const sum = {
       frequency: 0,
       cents: 0,
       weight: 0
     };
+    let bestPitch = analyzerResult;
     
-    // Implement hysteresis for note stability
-    // Count occurrences of each note
-    const noteOccurrences: Record<string, number> = {};
-    
-    for (let i = 0; i < audioContextRef.current.noteHistory.length; i++) {
-      const weight = i + 1; // More weight to recent samples
-      const pitch = audioContextRef.current.noteHistory[i];
+    for (let i = 0; i < history.length; i++) {
+      const pitch = history[i];
+      if (`${pitch.note}${pitch.octave}` !== bestName) continue;
+      const weight = (i + 1) * Math.max(pitch.confidence, 0.01);
       
       sum.frequency += pitch.frequency * weight;
       sum.cents += pitch.cents * weight;
       sum.weight += weight;
-      
-      // Count occurrences of this note
-      noteOccurrences[pitch.note] = (noteOccurrences[pitch.note] || 0) + 1;
+      bestPitch = pitch;
     }
     
     const avgFreq = sum.frequency / sum.weight;
     const avgCents = sum.cents / sum.weight;
     
-    // Find most frequent note
-    let mostFrequentNote = analyzerResult.note;
-    let maxOccurrences = 0;
+    // Hysteresis: a new note needs more confidence than the current one to keep it.
+    // A string can be far out of tune, so string mode only asks for agreement
+    const strings = stringsRef.current;
+    let isStable = false;
     
-    for (const [note, count] of Object.entries(noteOccurrences)) {
-      if (count > maxOccurrences) {
-        maxOccurrences = count;
-        mostFrequentNote = note;
-      }
+    if (bestName === audioContextRef.current.previousNote) {
+      isStable = noteSupport >= HOLD_CONFIDENCE && (strings.active || Math.abs(avgCents) < 25);
+    } else {
+      audioContextRef.current.previousNote = bestName;
+      isStable = noteSupport >= STABLE_CONFIDENCE && (strings.active || Math.abs(avgCents) < 15);
     }
     
-    // Improved stability detection with hysteresis
-    let isStable = false;
+    if (!updateDisplay) return;
     
-    // Check if note is the same as the previous most stable note
-    if (mostFrequentNote === audioContextRef.current.previousNote) {
-      audioContextRef.current.stableCount++;
-      // Require more stability for a new note, less for continuing the same note
-      isStable = audioContextRef.current.stableCount >= 2 && Math.abs(avgCents) < 25;
-    } else {
-      // Reset stability counter for new note
-      audioContextRef.current.stableCount = 0;
-      audioContextRef.current.previousNote = mostFrequentNote;
-      // Higher threshold for accepting a new note
-      isStable = maxOccurrences >= 2 && Math.abs(avgCents) < 15;
+    // String mode: measure against the tapped string, or the nearest one
+    if (strings.active) {
+      const targetFrequency = (string: OpenString) => getNoteFrequency(string.note, string.octave);
+      const target = strings.target !== null ? strings.strings[strings.target] : null;
+      const targetHz = target ? targetFrequency(target) : null;
+      const match = target && targetHz
+        ? { index: strings.target as number, cents: 1200 * Math.log2(avgFreq / targetHz) }
+        : findNearestString(strings.strings, avgFreq, targetFrequency);
+      
+      setStringMatch(match);
+      if (match && isStable) {
+        setStringCents(prev => prev.map((cents, i) => (i === match.index ? match.cents : cents)));
+      }
     }
     
+    sessionRef.current?.add(bestPitch.note, bestPitch.octave, avgCents, isStable);
+    
+    // The pitch held, as a fractional note number, while the note is stable.
+    // The exercises' `add` callbacks only read refs, so they never go stale here
+    const held = isStable ? toNoteNumber(bestPitch.note, bestPitch.octave) + avgCents / 100 : null;
+    
+    // Long tone: deviation from the target
+    longTone.add(held);
+    
+    // Scale practice: graded against the note asked for
+    scale.add(held);
+    
+    // Ear training: a held note is the answer
+    ear.add(held);
+    
     // Update state with current note info
-    setCurrentNote(mostFrequentNote);
+    setCurrentNote(bestPitch.note);
+    setCurrentOctave(bestPitch.octave);
     setFrequency(avgFreq);
     setCents(avgCents);
+    setConfidence(noteSupport);
     setHasStableNote(isStable);
     
     if (SHOW_DEBUG) {
       setDebugData(prev => ({
         ...prev,
-        currentNote: mostFrequentNote,
+        currentNote: bestName,
         frequency: avgFreq.toFixed(1),
         cents: avgCents.toFixed(1),
+        confidence: noteSupport.toFixed(2),
+        source: analyzerResult.source,
         isStable,
-        stableCount: audioContextRef.current.stableCount,
-        noteOccurrences
+        noteConfidence
       }));
     }
   }, []);
 
-  // Process audio data from the stream
+  // Process a polyphonic reading: name the chord in written pitch and show the
+  // one most of the recent frames agree on
+  const processChordResult = useCallback((reading: ChordReading | null, updateDisplay = true) => {
+    if (!reading) return;
+    
+    const written = reading.notes.map(pitch => toWrittenPitch(pitch, transpositionRef.current));
+    const named = nameChord(written.map(pitch => pitch.note), written[0].note);
+    const current: DisplayedChord = {
+      name: named?.name ?? null,
+      quality: named?.quality ?? null,
+      notes: written.map(pitch => `${pitch.note}${pitch.octave}`)
+    };
+    
+    if (audioContextRef.current.noSignalTimeout) {
+      clearTimeout(audioContextRef.current.noSignalTimeout);
+    }
+    audioContextRef.current.noSignalTimeout = setTimeout(() => {
+      setChord(null);
+      audioContextRef.current.chordHistory = [];
+    }, 2000);
+    
+    const history = audioContextRef.current.chordHistory;
+    history.push(current);
+    if (history.length > NOTE_HISTORY_FRAMES) {
+      history.shift();
+    }
+    
+    if (!updateDisplay) return;
+    
+    // Recency-weighted vote, keyed by chord name (or the notes when unnamed)
+    const votes: Record<string, number> = {};
+    let shown = current;
+    let bestVotes = 0;
+    history.forEach((entry, i) => {
+      const key = entry.name ?? entry.notes.join(' ');
+      votes[key] = (votes[key] || 0) + i + 1;
+      if (votes[key] >= bestVotes) {
+        bestVotes = votes[key];
+        shown = entry;
+      }
+    });
+    
+    setChord(shown);
+  }, []);
+
+  // Analyze one frame cut from the stream
+  const analyzeFrame = useCallback(async ({ samples, pending }: StreamFrame) => {
+    if (!audioContextRef.current.isListening) return;
+    
+    // Frames analyzed back to back after a large event only refresh the screen once
+    const updateDisplay = pending === 0;
+    
+    // Calculate signal strength - skip processing very quiet audio
+    const signalLevel = calculateSignalLevel(samples);
+    audioContextRef.current.volumeLevel = signalLevel;
+    
+    if (signalLevel < 0.005) {
+      // Very quiet - likely no sound - skip processing, but keep the trace scrolling
+      if (updateDisplay && tunerMode !== 'chord') {
+        setTraceNow(Date.now());
+      }
+      if (SHOW_DEBUG && updateDisplay) {
+        setDebugData(prev => ({...prev, signalLevel, status: 'Signal too weak'}));
+      }
+      return;
+    }
+    
+    if (!analyzerReady) {
+      if (SHOW_DEBUG && updateDisplay) {
+        setDebugData(prev => ({...prev, analyzerReady, status: 'Analyzer not ready'}));
+      }
+      return;
+    }
+    
+    try {
+      // Chord mode names every note in the frame instead of tracking one
+      if (tunerMode === 'chord') {
+        processChordResult(await detectChord(samples, SAMPLE_RATE), updateDisplay);
+        return;
+      }
+      
+      const startTime = performance.now();
+      const analyzerResult = await detectPitch(samples, SAMPLE_RATE);
+      const processingTime = performance.now() - startTime;
+      
+      if (SHOW_DEBUG && updateDisplay) {
+        setDebugData(prev => ({
+          ...prev,
+          analyzerResult: analyzerResult ? {
+            note: analyzerResult.note,
+            freq: analyzerResult.frequency.toFixed(1),
+            cents: analyzerResult.cents,
+            confidence: analyzerResult.confidence.toFixed(2),
+            source: analyzerResult.source,
+            time: new Date().toISOString().substring(11, 23)
+          } : { noResult: true },
+          // Where the model and the DSP estimate disagreed, and what won
+          ensemble: getLastEnsembleDecision(),
+          processingTime: processingTime.toFixed(1),
+          // Frames analyzed and hops skipped to keep up with the stream
+          stream: streamRef.current?.getStats(),
+          signalLevel: signalLevel.toFixed(3),
+          dataLength: samples.length,
+          status: 'Processing'
+        }));
+      }
+      
+      // Process result
+      processAnalyzerResult(analyzerResult, updateDisplay);
+      if (updateDisplay) {
+        setTraceNow(Date.now());
+      }
+    } catch (error) {
+      console.log('Buffer processing error:', error);
+      if (SHOW_DEBUG) {
+        setDebugData(prev => ({...prev, processingError: String(error)}));
+      }
+    }
+  }, [analyzerReady, tunerMode, calculateSignalLevel, processAnalyzerResult, processChordResult]);
+  
+  // The stream analyzer is created once; point it at the latest callback
+  analyzeFrameRef.current = analyzeFrame;
+
+  // Feed audio from the recorder into the stream analyzer
   const handleAudioStream = useCallback(async (event: ExtendedAudioEvent) => {
     if (!audioContextRef.current.isListening) return;
     
@@ -438,97 +754,15 @@ export const Screen1 = () => {
       let audioData = event.encoded || event.data;
       if (!audioData || typeof audioData !== 'string') return;
       
-      // Performance optimization: throttle processing on slower devices
-      const now = Date.now();
-      if (now - audioContextRef.current.lastProcessTime < audioContextRef.current.throttleMS) {
-        return;
-      }
-      audioContextRef.current.lastProcessTime = now;
-      
-      // Convert to Int16Array using optimized function
-      try {
-        const int16Data = fastBase64ToPCM(audioData);
-        
-        // Need sufficient data
-        if (int16Data.length < 2048) {
-          if (SHOW_DEBUG) {
-            setDebugData(prev => ({...prev, dataLength: int16Data.length, status: 'Insufficient data length'}));
-          }
-          return;
-        }
-        
-        // Calculate signal strength - skip processing very quiet audio
-        const signalLevel = calculateSignalLevel(int16Data);
-        audioContextRef.current.volumeLevel = signalLevel;
-        
-        if (signalLevel < 0.005) {
-          // Very quiet - likely no sound - skip processing
-          if (SHOW_DEBUG) {
-            setDebugData(prev => ({...prev, signalLevel, status: 'Signal too weak'}));
-          }
-          return;
-        }
-        
-        // Process with frequency analyzer
-        if (analyzerReady) {
-          // Every few updates, dynamically adjust throttle based on processing time
-          if (audioContextRef.current.analysisCount++ % 5 === 0) {
-            const startTime = performance.now();
-            const analyzerResult = await detectPitch(int16Data);
-            const endTime = performance.now();
-            
-            // Dynamically adjust throttling based on performance
-            const processingTime = endTime - startTime;
-            if (processingTime > 25) {
-              // Increase throttling if processing is taking too long
-              audioContextRef.current.throttleMS = Math.min(150, audioContextRef.current.throttleMS + 10);
-            } else if (processingTime < 15 && audioContextRef.current.throttleMS > 0) {
-              // Decrease throttling if processing is fast
-              audioContextRef.current.throttleMS = Math.max(0, audioContextRef.current.throttleMS - 5);
-            }
-            
-            if (SHOW_DEBUG) {
-              setDebugData(prev => ({
-                ...prev,
-                analyzerResult: analyzerResult ? {
-                  note: analyzerResult.note,
-                  freq: analyzerResult.frequency.toFixed(1),
-                  cents: analyzerResult.cents,
-                  time: new Date().toISOString().substring(11, 23)
-                } : { noResult: true },
-                processingTime: processingTime.toFixed(1),
-                throttleMS: audioContextRef.current.throttleMS,
-                signalLevel: signalLevel.toFixed(3),
-                dataLength: int16Data.length,
-                status: 'Processing'
-              }));
-            }
-            
-            // Process result
-            processAnalyzerResult(analyzerResult);
-          } else {
-            // Normal processing without metrics
-            const analyzerResult = await detectPitch(int16Data);
-            processAnalyzerResult(analyzerResult);
-          }
-        } else {
-          if (SHOW_DEBUG) {
-            setDebugData(prev => ({...prev, analyzerReady, status: 'Analyzer not ready'}));
-          }
-        }
-      } catch (error) {
-        console.log('Buffer processing error:', error);
-        if (SHOW_DEBUG) {
-          setDebugData(prev => ({...prev, processingError: String(error)}));
-        }
-      }
+      // Every sample goes into the ring buffer; frames are cut at a fixed hop
+      streamRef.current?.push(fastBase64ToPCM(audioData));
     } catch (error) {
       console.error('Audio processing error:', error);
       if (SHOW_DEBUG) {
         setDebugData(prev => ({...prev, streamError: String(error)}));
       }
     }
-  }, [analyzerReady, fastBase64ToPCM, calculateSignalLevel, processAnalyzerResult]);
+  }, [fastBase64ToPCM]);
 
   // Start/stop listening with the useAudioRecorder hook
   const toggleListening = useCallback(async () => {
@@ -543,17 +777,20 @@ export const Screen1 = () => {
       setError(null);
       audioContextRef.current.isListening = true;
       audioContextRef.current.noteHistory = [];
-      audioContextRef.current.throttleMS = 0; // Start with no throttling
-      audioContextRef.current.stableCount = 0;
       audioContextRef.current.previousNote = '';
       audioContextRef.current.streamId = '';
+      streamRef.current?.reset();
+      resetPitchTracking();
+      sessionRef.current?.start(transposition.id);
       
       try {
         // Start recording with continuous mode
         await startRecording({
-          sampleRate: 16000,
+          sampleRate: SAMPLE_RATE,
           channels: 1,
           filename: 'wav',
+          // Small events keep latency low; frame timing comes from HOP_SECONDS
+          interval: RECORDER_INTERVAL_MS,
           onAudioStream: handleAudioStream
         });
         
@@ -572,7 +809,7 @@ export const Screen1 = () => {
         }
       }
     }
-  }, [listening, analyzerReady, startRecording, handleAudioStream]);
+  }, [listening, analyzerReady, transposition.id, startRecording, handleAudioStream]);
 
   // Audio cleanup
   const cleanupAudio = useCallback(() => {
@@ -594,16 +831,27 @@ export const Screen1 = () => {
       audioContextRef.current.noSignalTimeout = null;
     }
     
+    sessionRef.current?.stop()
+      .catch(err => console.error('Failed to save practice session:', err));
+    
+    // A long tone can't go on without the microphone
+    longTone.stop();
+    scale.stop();
+    
     // Reset all state
     audioContextRef.current.isListening = false;
+    streamRef.current?.reset();
     audioContextRef.current.noteHistory = [];
-    audioContextRef.current.stableCount = 0;
+    audioContextRef.current.chordHistory = [];
     audioContextRef.current.previousNote = '';
     audioContextRef.current.streamId = '';
     
     setListening(false);
+    setChord(null);
     setCurrentNote(null);
+    setCurrentOctave(null);
     setCents(0);
+    setConfidence(0);
     setFrequency(null);
     setHasStableNote(false);
     
@@ -612,117 +860,327 @@ export const Screen1 = () => {
     }
   }, [isRecording, stopRecording]);
 
-  // UI rendering
-  const whiteKeys = enumKeys.filter(k => !k.includes('#'));
-  const blackKeys = enumKeys.filter(k => k.includes('#'));
-  const screenWidth = Dimensions.get('window').width;
-  const keyWidth = screenWidth / whiteKeys.length;
-
-  const whiteBG = isDarkMode ? '#000' : '#fff';
-  const whiteBorder = isDarkMode ? '#fff' : '#000';
-  const blackBG = isDarkMode ? '#fff' : '#000';
-
-  // Get color for the reference note display
-  const getReferenceColor = () => {
-    if (!referenceNote || !hasStableNote) return currentTheme.textColor;
-    return isAboveReference ? '#e74c3c' : '#2ecc71';
+  // Switch between single-note tracking, chord recognition and string tuning
+  const selectTunerMode = useCallback((mode: TunerMode) => {
+    ear.stop();
+    scale.stop();
+    audioContextRef.current.noteHistory = [];
+    audioContextRef.current.chordHistory = [];
+    audioContextRef.current.previousNote = '';
+    setChord(null);
+    setStringMatch(null);
+    setHasStableNote(false);
+    setCurrentNote(null);
+    setCurrentOctave(null);
+    setTunerMode(mode);
+  }, []);
+  
+  // Tapping a string makes it the target; tapping it again returns to auto-select
+  const handleStringPress = (index: number) => {
+    setTargetString(current => (current === index ? null : index));
+  };
+  
+  const stringSetName = stringSet === CUSTOM_STRING_SET_ID ? 'Custom' : getStringSet(stringSet).name;
+  
+  // "in tune", or which way to turn the peg
+  const describeStringDeviation = (deviation: number) => {
+    if (Math.abs(deviation) <= STRING_IN_TUNE_CENTS) return 'in tune';
+    const amount = Math.abs(deviation) >= 100
+      ? `${(Math.abs(deviation) / 100).toFixed(1)} semitones`
+      : `${Math.round(Math.abs(deviation))}¢`;
+    return `${amount} ${deviation < 0 ? 'flat' : 'sharp'}`;
   };
+  
+  // Colour for a string's last measurement
+  const getStringColor = (index: number) => {
+    const measured = stringCents[index];
+    if (measured === null || measured === undefined) return currentTheme.textColor;
+    return Math.abs(measured) <= STRING_IN_TUNE_CENTS ? '#2ecc71' : '#e74c3c';
+  };
+
+  // UI rendering
+  // Cents from the reference to the detected pitch, octaves included
+  const referenceCents = referenceNote && currentNote && currentOctave !== null && hasStableNote
+    ? 100 * (toNoteNumber(currentNote, currentOctave) - toNoteNumber(referenceNote, referenceOctave)) + cents
+    : null;
 
   return (
     <Theme>
-      <View
-        style={[
-          styles.keyboardContainer,
-          { width: keyWidth * whiteKeys.length }
-        ]}
-      >
-        {whiteKeys.map((note, i) => (
-          <Pressable
-            key={note + i}
-            onPress={() => handleKeyPress(note)}
-            style={[
-              styles.whiteKey,
-              {
-                width: keyWidth,
-                backgroundColor: whiteBG,
-                borderColor: whiteBorder
-              },
-              note === referenceNote && styles.selectedKey
-            ]}
-          >
-            <Text
-              style={[
-                styles.whiteLabel,
-                { color: currentTheme.textColor }
-              ]}
-            >
-              {note}
-            </Text>
-          </Pressable>
-        ))}
-        {blackKeys.map((note, idx) => {
-          const pos = whiteKeys.indexOf(note.replace('#',''));
-          return (
-            <Pressable
-              key={note + idx}
-              onPress={() => handleKeyPress(note)}
-              style={[
-                styles.blackKey,
-                {
-                  left: keyWidth * (pos + 1) - keyWidth * 0.25,
-                  width: keyWidth * 0.5,
-                  backgroundColor: blackBG
-                },
-                note === referenceNote && styles.selectedBlackKey
-              ]}
+      {tunerMode === 'strings' ? (
+        // Open strings of the chosen set; tap one to tune it, tap again for auto
+        <View style={styles.stringRow}>
+          {openStrings.map((string: OpenString, index: number) => {
+            const isTarget = index === (targetString ?? stringMatch?.index);
+            const measured = stringCents[index];
+            return (
+              <Pressable
+                key={index}
+                onPress={() => handleStringPress(index)}
+                style={[
+                  styles.stringBtn,
+                  { borderColor: getStringColor(index) },
+                  isTarget && { backgroundColor: currentTheme.textColor }
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.stringNote,
+                    { color: isTarget ? currentTheme.backgroundColor : getStringColor(index) }
+                  ]}
+                >
+                  {formatString(string)}
+                </Text>
+                <Text
+                  style={[
+                    styles.stringCents,
+                    { color: isTarget ? currentTheme.backgroundColor : getStringColor(index) }
+                  ]}
+                >
+                  {measured === null || measured === undefined
+                    ? ' '
+                    : `${measured > 0 ? '+' : ''}${Math.round(measured)}¢`}
+                  {index === targetString ? ' •' : ''}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      ) : (
+        // Scroll for the rest of the 88 keys; a key sets the reference note and octave
+        <PianoKeyboard
+          selected={referenceNote ? toNoteNumber(referenceNote, referenceOctave) : null}
+          onKeyPress={handleKeyPress}
+          initialKey={toNoteNumber('C', REFERENCE_OCTAVE)}
+          textColor={currentTheme.textColor}
+          isDarkMode={isDarkMode}
+        />
+      )}
+
+      {tunerMode === 'chord' ? (
+        // Chord name and the notes that make it up, in place of the single note
+        <ChordDisplay
+          name={chord?.name ?? null}
+          quality={chord?.quality}
+          notes={chord?.notes ?? []}
+          textColor={currentTheme.textColor}
+        />
+      ) : tunerMode === 'intervals' ? (
+        <>
+          {/* The note being sung, then the question and scores */}
+          <PitchGauge
+            note={currentNote}
+            octave={currentOctave}
+            cents={cents}
+            hasStableNote={hasStableNote}
+            confidence={confidence}
+            tuningLabel={tuningLabel}
+          />
+
+          <EarTrainer
+            question={ear.question}
+            grade={ear.grade}
+            status={ear.status}
+            tallies={ear.tallies}
+            directions={ear.directions}
+            drill={ear.drill}
+            listening={listening}
+            onNext={ear.next}
+            onReplay={ear.replay}
+            onDirectionsChange={ear.setDirections}
+            onDrillChange={ear.setDrill}
+            onResetTallies={ear.resetTallies}
+            textColor={currentTheme.textColor}
+            backgroundColor={currentTheme.backgroundColor}
+          />
+        </>
+      ) : tunerMode === 'scales' ? (
+        <>
+          {/* Deviation from the note asked for while a run is on */}
+          {scale.progress ? (
+            <PitchGauge
+              note={fromNoteNumber(scale.progress.target).note}
+              octave={fromNoteNumber(scale.progress.target).octave}
+              cents={scale.progress.deviation ?? 0}
+              hasStableNote={scale.progress.deviation !== null}
+              confidence={confidence}
+              tuningLabel={`${tuningLabel} · ${getScaleType(scale.type).name}`}
             />
-          );
-        })}
-      </View>
+          ) : (
+            <PitchGauge
+              note={currentNote}
+              octave={currentOctave}
+              cents={cents}
+              hasStableNote={hasStableNote}
+              confidence={confidence}
+              tuningLabel={tuningLabel}
+            />
+          )}
 
-      {/* Pass cents and reference note info to PitchGauge */}
-      <PitchGauge 
-        note={currentNote} 
-        cents={cents}
-        hasStableNote={hasStableNote}
-        referenceNote={referenceNote}
-        noteDifference={noteDifference * 50} // Scale for display
-        isAboveReference={isAboveReference}
-      />
+          <ScalePractice
+            keyNote={scale.keyNote}
+            octave={scale.octave}
+            scaleType={scale.type}
+            octaves={scale.octaves}
+            direction={scale.direction}
+            tolerance={scale.tolerance}
+            targets={scale.targets}
+            progress={scale.progress}
+            results={scale.results}
+            listening={listening}
+            onKeyChange={scale.changeKey}
+            onShiftOctave={scale.shiftOctave}
+            onScaleTypeChange={scale.setType}
+            onOctavesChange={scale.changeOctaves}
+            onDirectionChange={scale.setDirection}
+            onToleranceChange={scale.setTolerance}
+            onStart={scale.start}
+            onStop={scale.stop}
+            textColor={currentTheme.textColor}
+            backgroundColor={currentTheme.backgroundColor}
+          />
+        </>
+      ) : tunerMode === 'strings' ? (
+        <>
+          {/* Deviation from the target string rather than the nearest note */}
+          <PitchGauge
+            note={stringMatch ? openStrings[stringMatch.index]?.note ?? null : null}
+            octave={stringMatch ? openStrings[stringMatch.index]?.octave : null}
+            cents={stringMatch?.cents ?? 0}
+            hasStableNote={hasStableNote && !!stringMatch}
+            confidence={confidence}
+            tuningLabel={`${stringSetName} · ${targetString === null ? 'Auto' : 'Fixed string'}`}
+          />
 
-      {/* Current detected note display */}
-      <Text style={[styles.gaugeLabel, { color: currentTheme.textColor }]}>
-        {currentNote || '-'}
-        {frequency && hasStableNote && (
-          <Text style={[styles.frequencyText, { color: currentTheme.textColor }]}>
-            {` (${frequency.toFixed(1)} Hz)`}
+          <Text style={[styles.gaugeLabel, { color: currentTheme.textColor }]}>
+            {currentNote ? `${currentNote}${currentOctave ?? ''}` : '-'}
+            {frequency && hasStableNote && stringMatch && (
+              <Text style={[styles.frequencyText, { color: currentTheme.textColor }]}>
+                {` (${frequency.toFixed(1)} Hz, ${describeStringDeviation(stringMatch.cents)})`}
+              </Text>
+            )}
           </Text>
-        )}
-      </Text>
+
+          <PitchTrace points={traceRef.current} now={traceNow} textColor={currentTheme.textColor} />
+        </>
+      ) : (
+        <>
+          {gaugeLocked && referenceNote ? (
+            // Deviation from the reference note, however far away the pitch is
+            <PitchGauge
+              note={referenceNote}
+              octave={referenceOctave}
+              cents={referenceCents ?? 0}
+              hasStableNote={referenceCents !== null}
+              confidence={confidence}
+              tuningLabel={`${tuningLabel} · Locked to ${referenceNote}${referenceOctave}`}
+            />
+          ) : (
+            <PitchGauge
+              note={currentNote}
+              octave={currentOctave}
+              cents={cents}
+              hasStableNote={hasStableNote}
+              confidence={confidence}
+              tuningLabel={tuningLabel}
+            />
+          )}
+
+          {/* Current detected note display */}
+          <Text style={[styles.gaugeLabel, { color: currentTheme.textColor }]}>
+            {currentNote ? `${currentNote}${currentOctave ?? ''}` : '-'}
+            {frequency && hasStableNote && (
+              <Text style={[styles.frequencyText, { color: currentTheme.textColor }]}>
+                {` (${frequency.toFixed(1)} Hz, ${cents > 0 ? '+' : ''}${cents.toFixed(1)}¢)`}
+              </Text>
+            )}
+          </Text>
+
+          {longTone.open && referenceNote ? (
+            // Hold the reference note inside the window for the chosen time
+            <LongToneTrainer
+              target={`${referenceNote}${referenceOctave}`}
+              tolerance={longTone.tolerance}
+              duration={longTone.duration}
+              progress={longTone.progress}
+              score={longTone.score}
+              listening={listening}
+              onShiftOctave={shiftReferenceOctave}
+              onToleranceChange={longTone.setTolerance}
+              onDurationChange={longTone.setDuration}
+              onStart={longTone.start}
+              onStop={() => longTone.stop()}
+              textColor={currentTheme.textColor}
+              backgroundColor={currentTheme.backgroundColor}
+            />
+          ) : (
+            // Recent readings against the note grid
+            <PitchTrace points={traceRef.current} now={traceNow} textColor={currentTheme.textColor} />
+          )}
+        </>
+      )}
       
       {/* Reference note display */}
       {referenceNote && (
+        <>
+          <ReferenceNoteDisplay
+            target={`${referenceNote}${referenceOctave}`}
+            frequency={referenceTone.frequency}
+            deviation={referenceCents}
+            showModeButtons={tunerMode === 'note'}
+            longToneOpen={longTone.open}
+            gaugeLocked={gaugeLocked}
+            onClear={clearReferenceNote}
+            onToggleLongTone={() => {
+              longTone.stop(false);
+              longTone.setOpen(open => !open);
+            }}
+            onToggleLock={() => setGaugeLocked(locked => !locked)}
+            textColor={currentTheme.textColor}
+            backgroundColor={currentTheme.backgroundColor}
+          />
+
+          {/* Sound the reference as a short tone or a drone */}
+          <ReferenceTonePanel
+            timbre={referenceTone.timbre}
+            instruments={getSampleInstruments()}
+            instrument={referenceTone.instrument}
+            dynamicsOptions={referenceTone.instrument ? getSampleDynamics(referenceTone.instrument) : []}
+            dynamics={referenceTone.dynamics}
+            octave={referenceOctave}
+            volume={referenceTone.volume}
+            droneOn={referenceTone.droneOn}
+            onTimbreChange={referenceTone.selectTimbre}
+            onInstrumentChange={referenceTone.selectInstrument}
+            onDynamicsChange={referenceTone.setDynamics}
+            onShiftOctave={shiftReferenceOctave}
+            onVolumeChange={referenceTone.setVolume}
+            onPlay={() => referenceTone.play(referenceNote)}
+            onToggleDrone={() => referenceTone.setDroneOn(on => !on)}
+            textColor={currentTheme.textColor}
+            backgroundColor={currentTheme.backgroundColor}
+          />
+        </>
+      )}
+
+      <Text style={[styles.concertPitchText, { color: currentTheme.textColor }]}>
+        {`A4 = ${concertPitch.toFixed(1)} Hz · ${tuningLabel}`}
+      </Text>
+
+      {stretchTuning && (
         <View style={styles.referenceContainer}>
-          <Text style={styles.referenceLabel}>Reference Note:</Text>
-          <Text style={[
-            styles.referenceNote,
-            { color: getReferenceColor() }
-          ]}>
-            {referenceNote}
-            {hasStableNote && currentNote && (
-              <Text style={[styles.referenceDifference, { color: getReferenceColor() }]}>
-                {` (${isAboveReference ? '+' : '-'}${noteDifference} semitones)`}
-              </Text>
-            )}
-          </Text>
           <Pressable
-            onPress={clearReferenceNote}
+            onPress={handleMeasureString}
             style={[styles.clearButton, { backgroundColor: currentTheme.textColor }]}
           >
             <Text style={[styles.clearButtonText, { color: currentTheme.backgroundColor }]}>
-              Clear
+              Measure String
             </Text>
           </Pressable>
+          {measurementText && (
+            <Text style={[styles.measurementText, { color: currentTheme.textColor }]}>
+              {measurementText}
+            </Text>
+          )}
         </View>
       )}
 
@@ -733,113 +1191,31 @@ export const Screen1 = () => {
       />
 
       {proMode && (
-        <>
-          <View style={styles.controlsContainer}>
-            <View style={styles.control}>
-              <Pressable
-                onPress={() => setCount(c => Math.max(1, c - 1))}
-                style={[
-                  styles.ctrlBtn,
-                  { backgroundColor: currentTheme.textColor }
-                ]}
-              >
-                <Text
-                  style={[
-                    styles.ctrlText,
-                    { color: currentTheme.backgroundColor }
-                  ]}
-                >
-                  –
-                </Text>
-              </Pressable>
-              <Text
-                style={[
-                  styles.ctrlValue,
-                  { color: currentTheme.textColor }
-                ]}
-              >
-                {count}
-              </Text>
-              <Pressable
-                onPress={() => setCount(c => c + 1)}
-                style={[
-                  styles.ctrlBtn,
-                  { backgroundColor: currentTheme.textColor }
-                ]}
-              >
-                <Text
-                  style={[
-                    styles.ctrlText,
-                    { color: currentTheme.backgroundColor }
-                  ]}
-                >
-                  +
-                </Text>
-              </Pressable>
-            </View>
-
-            <View style={styles.control}>
-              <Pressable
-                onPress={() => setBpm(b => Math.max(5, b - 5))}
-                style={[
-                  styles.ctrlBtn,
-                  { backgroundColor: currentTheme.textColor }
-                ]}
-              >
-                <Text
-                  style={[
-                    styles.ctrlText,
-                    { color: currentTheme.backgroundColor }
-                  ]}
-                >
-                  –
-                </Text>
-              </Pressable>
-              <Text
-                style={[
-                  styles.ctrlValue,
-                  { color: currentTheme.textColor }
-                ]}
-              >
-                {bpm} BPM
-              </Text>
-              <Pressable
-                onPress={() => setBpm(b => b + 5)}
-                style={[
-                  styles.ctrlBtn,
-                  { backgroundColor: currentTheme.textColor }
-                ]}
-              >
-                <Text
-                  style={[
-                    styles.ctrlText,
-                    { color: currentTheme.backgroundColor }
-                  ]}
-                >
-                  +
-                </Text>
-              </Pressable>
-            </View>
-          </View>
+        <Metronome textColor={currentTheme.textColor} backgroundColor={currentTheme.backgroundColor} />
+      )}
 
+      <View style={styles.modeRow}>
+        {TUNER_MODES.map(({ id, label }) => (
           <Pressable
-            onPress={() => setMetroOn(on => !on)}
+            key={id}
+            onPress={() => selectTunerMode(id)}
             style={[
-              styles.toggleBtn,
-              { backgroundColor: currentTheme.textColor }
+              styles.modeBtn,
+              { borderColor: currentTheme.textColor },
+              id === tunerMode && { backgroundColor: currentTheme.textColor }
             ]}
           >
             <Text
               style={[
                 styles.toggleText,
-                { color: currentTheme.backgroundColor }
+                { color: id === tunerMode ? currentTheme.backgroundColor : currentTheme.textColor }
               ]}
             >
-              {metroOn ? 'Stop Metronome' : 'Start Metronome'}
+              {label}
             </Text>
           </Pressable>
-        </>
-      )}
+        ))}
+      </View>
 
       <Pressable
         onPress={toggleListening}
@@ -882,40 +1258,7 @@ export const Screen1 = () => {
 export default Screen1;
 
 const styles = StyleSheet.create({
-  keyboardContainer: {
-    flexDirection: 'row',
-    position: 'relative',
-    height: 200,
-    alignSelf: 'center'
-  },
-  whiteKey: { 
-    borderWidth: 1, 
-    height: '100%', 
-    justifyContent: 'flex-end' 
-  },
-  blackKey: { 
-    position: 'absolute', 
-    height: '60%', 
-    borderRadius: 3, 
-    zIndex: 1 
-  },
-  selectedKey: {
-    backgroundColor: '#e3f2fd',
-    borderColor: '#2196f3',
-    borderWidth: 2
-  },
-  selectedBlackKey: {
-    backgroundColor: '#2196f3',
-    borderColor: '#64b5f6',
-    borderWidth: 1
-  },
-  whiteLabel: { 
-    alignSelf: 'center', 
-    marginBottom: 8, 
-    fontSize: 12 
-  },
-
-  // Reference note display
+  // String measurement
   referenceContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -923,18 +1266,6 @@ const styles = StyleSheet.create({
     marginTop: 10,
     marginBottom: 5
   },
-  referenceLabel: {
-    fontSize: 14,
-    marginRight: 6
-  },
-  referenceNote: {
-    fontSize: 18,
-    fontWeight: '600'
-  },
-  referenceDifference: {
-    fontSize: 14,
-    fontWeight: '400'
-  },
   clearButton: {
     marginLeft: 10,
     paddingHorizontal: 10,
@@ -946,23 +1277,6 @@ const styles = StyleSheet.create({
     fontWeight: '600'
   },
 
-  controlsContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-    padding: 20
-  },
-  control: { flexDirection: 'row', alignItems: 'center' },
-
-  ctrlBtn: {
-    width: 40,
-    height: 40,
-    borderRadius: 20,
-    justifyContent: 'center',
-    alignItems: 'center'
-  },
-  ctrlText: { fontSize: 24, fontWeight: '600' },
-  ctrlValue: { marginHorizontal: 12, fontSize: 16, fontWeight: '500' },
-
   toggleBtn: {
     alignSelf: 'center',
     padding: 12,
@@ -970,6 +1284,35 @@ const styles = StyleSheet.create({
     marginTop: 10
   },
   toggleText: { fontSize: 16, fontWeight: '600' },
+  modeRow: {
+    flexDirection: 'row',
+    alignSelf: 'center',
+    gap: 8,
+    marginTop: 10
+  },
+  modeBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 6,
+    borderWidth: 2
+  },
+  stringRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 10
+  },
+  stringBtn: {
+    minWidth: 52,
+    paddingVertical: 10,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center'
+  },
+  stringNote: { fontSize: 18, fontWeight: '700' },
+  stringCents: { fontSize: 11, marginTop: 2 },
 
   gaugeLabel: {
     alignSelf: 'center',
@@ -981,6 +1324,16 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '400'
   },
+  measurementText: {
+    marginLeft: 10,
+    fontSize: 12
+  },
+  concertPitchText: {
+    alignSelf: 'center',
+    marginTop: 6,
+    fontSize: 12,
+    opacity: 0.6
+  },
   errorText: {
     alignSelf: 'center',
     marginTop: 10,
@@ -1,5 +1,5 @@
 import React, { useContext } from 'react'
-import { View, StyleSheet, Pressable, Text } from 'react-native'
+import { ScrollView, View, StyleSheet, Pressable, Text } from 'react-native'
 import Theme from '../layout/Theme'
 import { ThemeContext } from '../layout/ThemeContext'
 
@@ -8,11 +8,17 @@ export const Screen3 = ({ navigation }) => {
 
   return (
     <Theme>
-      <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.container}>
         {[
           { title: 'LIGHT/DARK MODE', to: 'Screen31' },
           { title: 'CREDITS',          to: 'Credits'   },
           { title: 'PRO MODE',         to: 'Screen32'   },
+          { title: 'CONCERT PITCH',    to: 'Screen33'   },
+          { title: 'TEMPERAMENT',      to: 'Screen34'   },
+          { title: 'PIANO STRETCH',    to: 'Screen35'   },
+          { title: 'TRANSPOSITION',    to: 'Screen36'   },
+          { title: 'INSTRUMENT RANGE', to: 'Screen37'   },
+          { title: 'STRING SETS',      to: 'Screen38'   },
         ].map(({ title, to }) => (
           <Pressable
             key={to}
@@ -24,7 +30,7 @@ export const Screen3 = ({ navigation }) => {
             </Text>
           </Pressable>
         ))}
-      </View>
+      </ScrollView>
     </Theme>
   )
 }
@@ -45,7 +51,7 @@ export const Credits = () => {
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     gap: 16,
     width: '80%',
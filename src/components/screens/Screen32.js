@@ -1,7 +1,9 @@
 import React, { useContext } from 'react';
-import { View, Text, StyleSheet, Switch } from 'react-native';
+import { ScrollView, View, Text, StyleSheet, Switch, Pressable } from 'react-native';
 import Theme from '../layout/Theme';
 import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import { getPitchEstimators } from '../../utils/pitchAnalyzer';
 
 export const Screen32 = () => {
   const {
@@ -10,6 +12,7 @@ export const Screen32 = () => {
     proMode,
     toggleProMode
   } = useContext(ThemeContext);
+  const { pitchEstimator, setPitchEstimator } = useContext(SettingsContext);
 
   const boxBg = isDarkMode
     ? (proMode ? '#000' : '#fff')
@@ -20,30 +23,64 @@ export const Screen32 = () => {
 
   return (
     <Theme>
-      <View style={styles.container}>
-        <View style={[styles.box, { backgroundColor: boxBg }]}>
-          <Text style={[styles.boxText, { color: textColor }]}>
-            Pro Mode {proMode ? 'On' : 'Off'}
-          </Text>
+      <ScrollView contentContainerStyle={styles.scroll}>
+        <View style={styles.container}>
+          <View style={[styles.box, { backgroundColor: boxBg }]}>
+            <Text style={[styles.boxText, { color: textColor }]}>
+              Pro Mode {proMode ? 'On' : 'Off'}
+            </Text>
+          </View>
+          <Switch
+            value={proMode}
+            onValueChange={toggleProMode}
+            thumbColor={proMode ? currentTheme.textColor : '#ccc'}
+            trackColor={{
+              true:  currentTheme.textColor + '55',
+              false: '#999'
+            }}
+            style={styles.switch}
+          />
         </View>
-        <Switch
-          value={proMode}
-          onValueChange={toggleProMode}
-          thumbColor={proMode ? currentTheme.textColor : '#ccc'}
-          trackColor={{
-            true:  currentTheme.textColor + '55',
-            false: '#999'
-          }}
-          style={styles.switch}
-        />
-      </View>
+
+        {proMode && (
+          <View style={styles.options}>
+            <Text style={[styles.heading, { color: currentTheme.textColor }]}>
+              Pitch Estimator
+            </Text>
+            {getPitchEstimators().map(({ id, name }) => (
+              <Pressable
+                key={id}
+                style={[
+                  styles.option,
+                  { borderColor: currentTheme.textColor },
+                  id === pitchEstimator && { backgroundColor: currentTheme.textColor }
+                ]}
+                onPress={() => setPitchEstimator(id)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    { color: id === pitchEstimator ? currentTheme.backgroundColor : currentTheme.textColor }
+                  ]}
+                >
+                  {name}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+        )}
+      </ScrollView>
     </Theme>
   );
 };
 
 const styles = StyleSheet.create({
+  scroll: {
+    flexGrow:       1,
+    justifyContent: 'center',
+    paddingVertical: 20,
+  },
   container: {
-    flex:           1,
     justifyContent: 'center',
     alignItems:     'center',
     flexDirection:  'row',
@@ -62,6 +99,27 @@ const styles = StyleSheet.create({
   },
   switch: {
     marginLeft: 8,
+  },
+  options: {
+    width:     '80%',
+    alignSelf: 'center',
+    gap:       10,
+    marginTop: 30,
+  },
+  heading: {
+    fontSize:   18,
+    fontWeight: '600',
+    textAlign:  'center',
+  },
+  option: {
+    paddingVertical: 12,
+    borderRadius:    6,
+    borderWidth:     2,
+    alignItems:      'center',
+  },
+  optionText: {
+    fontSize:   16,
+    fontWeight: '600',
   }
 });
 
@@ -0,0 +1,126 @@
+import React, { useContext } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import {
+  DEFAULT_REFERENCE_FREQUENCY,
+  MIN_REFERENCE_FREQUENCY,
+  MAX_REFERENCE_FREQUENCY
+} from '../../utils/pitchAnalyzer';
+
+// Common concert pitches: baroque, classical, modern, orchestral
+const PRESETS = [415, 430, 440, 442, 443];
+
+const STEPS = [-1, -0.1, 0.1, 1];
+
+export const Screen33 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const { concertPitch, setConcertPitch } = useContext(SettingsContext);
+
+  return (
+    <Theme>
+      <View style={styles.container}>
+        <Text style={[styles.value, { color: currentTheme.textColor }]}>
+          A4 = {concertPitch.toFixed(1)} Hz
+        </Text>
+        <Text style={[styles.hint, { color: currentTheme.textColor }]}>
+          {MIN_REFERENCE_FREQUENCY}–{MAX_REFERENCE_FREQUENCY} Hz
+        </Text>
+
+        <View style={styles.row}>
+          {STEPS.map(step => (
+            <Pressable
+              key={step}
+              style={[styles.stepBtn, { backgroundColor: currentTheme.textColor }]}
+              onPress={() => setConcertPitch(concertPitch + step)}
+            >
+              <Text style={[styles.btnText, { color: currentTheme.backgroundColor }]}>
+                {step > 0 ? `+${step}` : `${step}`}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <View style={styles.row}>
+          {PRESETS.map(preset => (
+            <Pressable
+              key={preset}
+              style={[
+                styles.presetBtn,
+                { borderColor: currentTheme.textColor },
+                preset === concertPitch && { backgroundColor: currentTheme.textColor }
+              ]}
+              onPress={() => setConcertPitch(preset)}
+            >
+              <Text
+                style={[
+                  styles.btnText,
+                  { color: preset === concertPitch ? currentTheme.backgroundColor : currentTheme.textColor }
+                ]}
+              >
+                {preset}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <Pressable
+          style={[styles.resetBtn, { backgroundColor: currentTheme.textColor }]}
+          onPress={() => setConcertPitch(DEFAULT_REFERENCE_FREQUENCY)}
+        >
+          <Text style={[styles.btnText, { color: currentTheme.backgroundColor }]}>
+            RESET TO {DEFAULT_REFERENCE_FREQUENCY} Hz
+          </Text>
+        </Pressable>
+      </View>
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  value: {
+    fontSize: 32,
+    fontWeight: '700',
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.6,
+  },
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  stepBtn: {
+    minWidth: 56,
+    paddingVertical: 10,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  presetBtn: {
+    minWidth: 56,
+    paddingVertical: 8,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  resetBtn: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 6,
+  },
+  btnText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default Screen33;
@@ -0,0 +1,179 @@
+import React, { useContext } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable } from 'react-native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import {
+  TEMPERAMENTS,
+  CUSTOM_TEMPERAMENT_ID,
+  EQUAL_TEMPERAMENT_ID
+} from '../../utils/temperaments';
+
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const OPTIONS = [
+  ...TEMPERAMENTS.map(({ id, name }) => ({ id, name })),
+  { id: CUSTOM_TEMPERAMENT_ID, name: 'Custom Table' }
+];
+
+export const Screen34 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const {
+    temperament,
+    setTemperament,
+    temperamentTonic,
+    setTemperamentTonic,
+    customTemperament,
+    setCustomDeviation
+  } = useContext(SettingsContext);
+
+  const tonicIndex = PITCH_CLASSES.indexOf(temperamentTonic);
+
+  // Filled button when selected, outlined otherwise
+  const optionStyle = selected => [
+    styles.option,
+    { borderColor: currentTheme.textColor },
+    selected && { backgroundColor: currentTheme.textColor }
+  ];
+  const optionTextStyle = selected => [
+    styles.optionText,
+    { color: selected ? currentTheme.backgroundColor : currentTheme.textColor }
+  ];
+
+  return (
+    <Theme>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={[styles.heading, { color: currentTheme.textColor }]}>Temperament</Text>
+        {OPTIONS.map(({ id, name }) => (
+          <Pressable
+            key={id}
+            style={optionStyle(id === temperament)}
+            onPress={() => setTemperament(id)}
+          >
+            <Text style={optionTextStyle(id === temperament)}>{name}</Text>
+          </Pressable>
+        ))}
+
+        {temperament !== EQUAL_TEMPERAMENT_ID && (
+          <>
+            <Text style={[styles.heading, { color: currentTheme.textColor }]}>Tonic</Text>
+            <View style={styles.grid}>
+              {PITCH_CLASSES.map(note => (
+                <Pressable
+                  key={note}
+                  style={[optionStyle(note === temperamentTonic), styles.tonicBtn]}
+                  onPress={() => setTemperamentTonic(note)}
+                >
+                  <Text style={optionTextStyle(note === temperamentTonic)}>{note}</Text>
+                </Pressable>
+              ))}
+            </View>
+            <Text style={[styles.hint, { color: currentTheme.textColor }]}>
+              A stays at the concert pitch; other notes are tempered around it.
+            </Text>
+          </>
+        )}
+
+        {temperament === CUSTOM_TEMPERAMENT_ID && (
+          <>
+            <Text style={[styles.heading, { color: currentTheme.textColor }]}>
+              Cents from equal temperament
+            </Text>
+            {customTemperament.map((cents, degree) => (
+              <View key={degree} style={styles.customRow}>
+                <Text style={[styles.customNote, { color: currentTheme.textColor }]}>
+                  {PITCH_CLASSES[(tonicIndex + degree) % 12]}
+                </Text>
+                {[-1, -0.1].map(step => (
+                  <Pressable
+                    key={step}
+                    style={[styles.stepBtn, { backgroundColor: currentTheme.textColor }]}
+                    onPress={() => setCustomDeviation(degree, Math.round((cents + step) * 10) / 10)}
+                  >
+                    <Text style={[styles.stepText, { color: currentTheme.backgroundColor }]}>{step}</Text>
+                  </Pressable>
+                ))}
+                <Text style={[styles.customValue, { color: currentTheme.textColor }]}>
+                  {cents > 0 ? `+${cents.toFixed(1)}` : cents.toFixed(1)}¢
+                </Text>
+                {[0.1, 1].map(step => (
+                  <Pressable
+                    key={step}
+                    style={[styles.stepBtn, { backgroundColor: currentTheme.textColor }]}
+                    onPress={() => setCustomDeviation(degree, Math.round((cents + step) * 10) / 10)}
+                  >
+                    <Text style={[styles.stepText, { color: currentTheme.backgroundColor }]}>+{step}</Text>
+                  </Pressable>
+                ))}
+              </View>
+            ))}
+          </>
+        )}
+      </ScrollView>
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    alignSelf: 'center',
+    gap: 10,
+    paddingVertical: 20,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 10,
+  },
+  option: {
+    paddingVertical: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  tonicBtn: {
+    width: 52,
+    paddingVertical: 8,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  customRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  customNote: {
+    width: 32,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  customValue: {
+    width: 64,
+    textAlign: 'center',
+    fontSize: 15,
+  },
+  stepBtn: {
+    width: 44,
+    paddingVertical: 6,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default Screen34;
@@ -0,0 +1,191 @@
+import React, { useContext, useState } from 'react';
+import { ScrollView, View, Text, TextInput, StyleSheet, Pressable, Switch } from 'react-native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import { buildStretchCurve } from '../../utils/inharmonicity';
+
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// MIDI note number to a name such as "A4"
+function midiToName(midi) {
+  return `${PITCH_CLASSES[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+export const Screen35 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const {
+    stretchTuning,
+    setStretchTuning,
+    stretchProfile,
+    stretchProfiles,
+    selectStretchProfile,
+    clearStretchProfile,
+    deleteStretchProfile
+  } = useContext(SettingsContext);
+  const [newProfile, setNewProfile] = useState('');
+
+  const measurements = stretchProfiles[stretchProfile] || {};
+  const measuredKeys = Object.keys(measurements).map(Number).sort((a, b) => a - b);
+  const curve = buildStretchCurve(measurements);
+
+  const textStyle = { color: currentTheme.textColor };
+
+  return (
+    <Theme>
+      <ScrollView contentContainerStyle={styles.container}>
+        <View style={styles.switchRow}>
+          <Text style={[styles.heading, textStyle]}>
+            Stretch Tuning {stretchTuning ? 'On' : 'Off'}
+          </Text>
+          <Switch
+            value={stretchTuning}
+            onValueChange={setStretchTuning}
+            thumbColor={stretchTuning ? currentTheme.textColor : '#ccc'}
+            trackColor={{
+              true:  currentTheme.textColor + '55',
+              false: '#999'
+            }}
+          />
+        </View>
+        <Text style={[styles.hint, textStyle]}>
+          Measure strings from the tuner with "Measure String" while a note is held.
+          Cents are then reported against the stretched target instead of equal temperament.
+        </Text>
+
+        <Text style={[styles.heading, textStyle]}>Instrument</Text>
+        {Object.keys(stretchProfiles).map(name => (
+          <Pressable
+            key={name}
+            style={[
+              styles.option,
+              { borderColor: currentTheme.textColor },
+              name === stretchProfile && { backgroundColor: currentTheme.textColor }
+            ]}
+            onPress={() => selectStretchProfile(name)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                { color: name === stretchProfile ? currentTheme.backgroundColor : currentTheme.textColor }
+              ]}
+            >
+              {name} ({Object.keys(stretchProfiles[name]).length} keys)
+            </Text>
+          </Pressable>
+        ))}
+        <View style={styles.switchRow}>
+          <TextInput
+            value={newProfile}
+            onChangeText={setNewProfile}
+            placeholder="New instrument name"
+            placeholderTextColor="#999"
+            style={[styles.input, { borderColor: currentTheme.textColor, color: currentTheme.textColor }]}
+          />
+          <Pressable
+            style={[styles.smallBtn, { backgroundColor: currentTheme.textColor }]}
+            onPress={() => {
+              selectStretchProfile(newProfile);
+              setNewProfile('');
+            }}
+          >
+            <Text style={[styles.optionText, { color: currentTheme.backgroundColor }]}>ADD</Text>
+          </Pressable>
+        </View>
+
+        <Text style={[styles.heading, textStyle]}>Measured Strings</Text>
+        {measuredKeys.length === 0 && (
+          <Text style={[styles.hint, textStyle]}>No strings measured yet.</Text>
+        )}
+        {measuredKeys.map(midi => (
+          <View key={midi} style={styles.measurementRow}>
+            <Text style={[styles.measurementNote, textStyle]}>{midiToName(midi)}</Text>
+            <Text style={[styles.measurementValue, textStyle]}>
+              B = {measurements[midi].toExponential(2)}
+            </Text>
+            <Text style={[styles.measurementValue, textStyle]}>
+              {curve ? `${curve[midi] > 0 ? '+' : ''}${curve[midi].toFixed(1)}¢` : ''}
+            </Text>
+          </View>
+        ))}
+
+        <View style={styles.switchRow}>
+          <Pressable
+            style={[styles.smallBtn, { backgroundColor: currentTheme.textColor }]}
+            onPress={clearStretchProfile}
+          >
+            <Text style={[styles.optionText, { color: currentTheme.backgroundColor }]}>CLEAR</Text>
+          </Pressable>
+          <Pressable
+            style={[styles.smallBtn, { backgroundColor: currentTheme.textColor }]}
+            onPress={deleteStretchProfile}
+          >
+            <Text style={[styles.optionText, { color: currentTheme.backgroundColor }]}>DELETE</Text>
+          </Pressable>
+        </View>
+      </ScrollView>
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '85%',
+    alignSelf: 'center',
+    gap: 10,
+    paddingVertical: 20,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 10,
+  },
+  heading: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 10,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  option: {
+    paddingVertical: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 6,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  smallBtn: {
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  measurementRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  measurementNote: {
+    width: 48,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  measurementValue: {
+    fontSize: 15,
+  },
+});
+
+export default Screen35;
@@ -0,0 +1,80 @@
+import React, { useContext } from 'react';
+import { ScrollView, Text, StyleSheet, Pressable } from 'react-native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import { TRANSPOSITIONS } from '../../utils/transposition';
+
+export const Screen36 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const { transposition, setTransposition } = useContext(SettingsContext);
+
+  return (
+    <Theme>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={[styles.hint, { color: currentTheme.textColor }]}>
+          Notes on the tuner and reference keyboard are shown in your instrument's written pitch.
+        </Text>
+        {TRANSPOSITIONS.map(({ id, name, semitones }) => (
+          <Pressable
+            key={id}
+            style={[
+              styles.option,
+              { borderColor: currentTheme.textColor },
+              id === transposition && { backgroundColor: currentTheme.textColor }
+            ]}
+            onPress={() => setTransposition(id)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                { color: id === transposition ? currentTheme.backgroundColor : currentTheme.textColor }
+              ]}
+            >
+              {name}
+            </Text>
+            {semitones !== 0 && (
+              <Text
+                style={[
+                  styles.detailText,
+                  { color: id === transposition ? currentTheme.backgroundColor : currentTheme.textColor }
+                ]}
+              >
+                Written {Math.abs(semitones)} semitones {semitones > 0 ? 'above' : 'below'} concert
+              </Text>
+            )}
+          </Pressable>
+        ))}
+      </ScrollView>
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    alignSelf: 'center',
+    gap: 10,
+    paddingVertical: 20,
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  option: {
+    paddingVertical: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detailText: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
+
+export default Screen36;
@@ -0,0 +1,129 @@
+import React, { useContext } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable } from 'react-native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import { INSTRUMENT_RANGES, CUSTOM_RANGE_ID } from '../../utils/instrumentRanges';
+
+const OPTIONS = [
+  ...INSTRUMENT_RANGES,
+  { id: CUSTOM_RANGE_ID, name: 'Custom' }
+];
+
+const STEPS = [-10, -1, 1, 10];
+
+export const Screen37 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const {
+    instrumentRange,
+    setInstrumentRange,
+    customRange,
+    setCustomRange,
+    frequencyRange
+  } = useContext(SettingsContext);
+
+  // One row of +/- buttons for the low or high end of the custom range
+  const renderStepper = (label, value, onChange) => (
+    <View style={styles.stepRow}>
+      <Text style={[styles.stepLabel, { color: currentTheme.textColor }]}>{label}</Text>
+      {STEPS.map(step => (
+        <Pressable
+          key={step}
+          style={[styles.stepBtn, { backgroundColor: currentTheme.textColor }]}
+          onPress={() => onChange(value + step)}
+        >
+          <Text style={[styles.stepText, { color: currentTheme.backgroundColor }]}>
+            {step > 0 ? `+${step}` : step}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+
+  return (
+    <Theme>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={[styles.value, { color: currentTheme.textColor }]}>
+          {frequencyRange.minFrequency}–{frequencyRange.maxFrequency} Hz
+        </Text>
+
+        {OPTIONS.map(({ id, name }) => (
+          <Pressable
+            key={id}
+            style={[
+              styles.option,
+              { borderColor: currentTheme.textColor },
+              id === instrumentRange && { backgroundColor: currentTheme.textColor }
+            ]}
+            onPress={() => setInstrumentRange(id)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                { color: id === instrumentRange ? currentTheme.backgroundColor : currentTheme.textColor }
+              ]}
+            >
+              {name}
+            </Text>
+          </Pressable>
+        ))}
+
+        {instrumentRange === CUSTOM_RANGE_ID && (
+          <>
+            {renderStepper('Low', customRange.minFrequency,
+              min => setCustomRange(min, customRange.maxFrequency))}
+            {renderStepper('High', customRange.maxFrequency,
+              max => setCustomRange(customRange.minFrequency, max))}
+          </>
+        )}
+      </ScrollView>
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    alignSelf: 'center',
+    gap: 10,
+    paddingVertical: 20,
+  },
+  value: {
+    fontSize: 24,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  option: {
+    paddingVertical: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepLabel: {
+    width: 48,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepBtn: {
+    width: 52,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default Screen37;
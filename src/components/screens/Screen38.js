@@ -0,0 +1,171 @@
+import React, { useContext } from 'react';
+import { ScrollView, View, Text, StyleSheet, Pressable } from 'react-native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import {
+  STRING_SETS,
+  CUSTOM_STRING_SET_ID,
+  MAX_STRINGS,
+  MIN_STRINGS,
+  formatString,
+  shiftString
+} from '../../utils/stringSets';
+
+const OPTIONS = [
+  ...STRING_SETS,
+  { id: CUSTOM_STRING_SET_ID, name: 'Custom' }
+];
+
+const STEPS = [-12, -1, 1, 12];
+
+export const Screen38 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const {
+    stringSet,
+    setStringSet,
+    customStrings,
+    setCustomStrings,
+    openStrings
+  } = useContext(SettingsContext);
+
+  const updateString = (index, semitones) => {
+    setCustomStrings(customStrings.map((s, i) => (i === index ? shiftString(s, semitones) : s)));
+  };
+
+  // New strings start a fourth above the highest one
+  const addString = () => {
+    const last = customStrings[customStrings.length - 1];
+    setCustomStrings([...customStrings, shiftString(last, 5)]);
+  };
+
+  const removeString = index => {
+    setCustomStrings(customStrings.filter((s, i) => i !== index));
+  };
+
+  return (
+    <Theme>
+      <ScrollView contentContainerStyle={styles.container}>
+        <Text style={[styles.value, { color: currentTheme.textColor }]}>
+          {openStrings.map(formatString).join(' – ')}
+        </Text>
+
+        {OPTIONS.map(({ id, name }) => (
+          <Pressable
+            key={id}
+            style={[
+              styles.option,
+              { borderColor: currentTheme.textColor },
+              id === stringSet && { backgroundColor: currentTheme.textColor }
+            ]}
+            onPress={() => setStringSet(id)}
+          >
+            <Text
+              style={[
+                styles.optionText,
+                { color: id === stringSet ? currentTheme.backgroundColor : currentTheme.textColor }
+              ]}
+            >
+              {name}
+            </Text>
+          </Pressable>
+        ))}
+
+        {stringSet === CUSTOM_STRING_SET_ID && (
+          <>
+            {customStrings.map((string, index) => (
+              <View key={index} style={styles.stepRow}>
+                <Text style={[styles.stepLabel, { color: currentTheme.textColor }]}>
+                  {formatString(string)}
+                </Text>
+                {STEPS.map(step => (
+                  <Pressable
+                    key={step}
+                    style={[styles.stepBtn, { backgroundColor: currentTheme.textColor }]}
+                    onPress={() => updateString(index, step)}
+                  >
+                    <Text style={[styles.stepText, { color: currentTheme.backgroundColor }]}>
+                      {step > 0 ? `+${step}` : step}
+                    </Text>
+                  </Pressable>
+                ))}
+                <Pressable
+                  style={[styles.removeBtn, { borderColor: currentTheme.textColor }]}
+                  onPress={() => removeString(index)}
+                  disabled={customStrings.length <= MIN_STRINGS}
+                >
+                  <Text style={[styles.stepText, { color: currentTheme.textColor }]}>✕</Text>
+                </Pressable>
+              </View>
+            ))}
+
+            {customStrings.length < MAX_STRINGS && (
+              <Pressable
+                style={[styles.option, { borderColor: currentTheme.textColor }]}
+                onPress={addString}
+              >
+                <Text style={[styles.optionText, { color: currentTheme.textColor }]}>
+                  Add String
+                </Text>
+              </Pressable>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '80%',
+    alignSelf: 'center',
+    gap: 10,
+    paddingVertical: 20,
+  },
+  value: {
+    fontSize: 24,
+    fontWeight: '700',
+    textAlign: 'center',
+    marginBottom: 6,
+  },
+  option: {
+    paddingVertical: 12,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  stepLabel: {
+    width: 48,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  stepBtn: {
+    width: 44,
+    paddingVertical: 8,
+    borderRadius: 6,
+    alignItems: 'center',
+  },
+  removeBtn: {
+    width: 36,
+    paddingVertical: 6,
+    borderRadius: 6,
+    borderWidth: 2,
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default Screen38;
@@ -0,0 +1,242 @@
+import React, { useContext, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, FlatList, ActivityIndicator } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import { decode as atob } from 'base-64';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import { SettingsContext } from '../layout/SettingsContext';
+import { decodeAudioFile } from '../../utils/wavDecoder';
+import { analyzeRecording } from '../../utils/recordingAnalyzer';
+import { getTransposition, transposeNote } from '../../utils/transposition';
+
+// Deviation treated as in tune (cents)
+const IN_TUNE_CENTS = 5;
+
+// Segments below this confidence are drawn faded
+const LOW_CONFIDENCE = 0.5;
+
+const AUDIO_TYPES = ['audio/wav', 'audio/x-wav', 'audio/wave', 'audio/aiff', 'audio/x-aiff', 'audio/*'];
+
+// m:ss.cc
+const formatTime = seconds => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = (seconds - minutes * 60).toFixed(2).padStart(5, '0');
+  return `${minutes}:${rest}`;
+};
+
+const formatCents = cents => (cents > 0 ? `+${cents}` : `${cents}`);
+
+// Read a picked file into memory
+const readFileBytes = async uri => {
+  const base64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+export const Screen4 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const { transposition } = useContext(SettingsContext);
+  const [fileName, setFileName] = useState(null);
+  const [analysis, setAnalysis] = useState(null);
+  const [progress, setProgress] = useState(null);
+  const [error, setError] = useState(null);
+
+  const semitones = getTransposition(transposition).semitones;
+
+  const pickAndAnalyze = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: AUDIO_TYPES,
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.length) {
+        return;
+      }
+
+      const asset = result.assets[0];
+      setFileName(asset.name);
+      setAnalysis(null);
+      setError(null);
+      setProgress(0);
+
+      const audio = decodeAudioFile(await readFileBytes(asset.uri));
+      const recording = await analyzeRecording(audio, { onProgress: setProgress });
+      setAnalysis(recording);
+    } catch (err) {
+      console.error('Failed to analyze recording:', err);
+      setError(err.message || String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const averageCents = analysis && analysis.segments.length
+    ? Math.round(
+        analysis.segments.reduce((sum, s) => sum + Math.abs(s.cents), 0) / analysis.segments.length
+      )
+    : null;
+
+  const renderSegment = ({ item }) => {
+    // Detected notes are concert pitch; show them as written
+    const written = transposeNote(item.note, item.octave, semitones);
+    const inTune = Math.abs(item.cents) <= IN_TUNE_CENTS;
+
+    return (
+      <View
+        style={[
+          styles.row,
+          { borderColor: currentTheme.textColor },
+          item.confidence < LOW_CONFIDENCE && styles.dimmed
+        ]}
+      >
+        <Text style={[styles.time, { color: currentTheme.textColor }]}>
+          {formatTime(item.start)}
+        </Text>
+        <Text style={[styles.note, { color: currentTheme.textColor }]}>
+          {written.note}{written.octave}
+        </Text>
+        <Text style={[styles.frequency, { color: currentTheme.textColor }]}>
+          {item.frequency.toFixed(1)} Hz
+        </Text>
+        <View style={styles.centsColumn}>
+          <Text style={[styles.cents, { color: inTune ? '#2ecc71' : '#e74c3c' }]}>
+            {formatCents(item.cents)}¢
+          </Text>
+          <Text style={styles.centsRange}>
+            {formatCents(item.minCents)}…{formatCents(item.maxCents)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Theme>
+      <Pressable
+        style={[styles.btn, { backgroundColor: currentTheme.textColor }]}
+        onPress={pickAndAnalyze}
+        disabled={progress !== null}
+      >
+        <Text style={[styles.btnText, { color: currentTheme.backgroundColor }]}>
+          CHOOSE RECORDING
+        </Text>
+      </Pressable>
+
+      {fileName && (
+        <Text style={[styles.fileName, { color: currentTheme.textColor }]} numberOfLines={1}>
+          {fileName}
+        </Text>
+      )}
+
+      {progress !== null && (
+        <View style={styles.progress}>
+          <ActivityIndicator color={currentTheme.textColor} />
+          <Text style={[styles.summary, { color: currentTheme.textColor }]}>
+            Analyzing… {Math.round(progress * 100)}%
+          </Text>
+        </View>
+      )}
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      {analysis && (
+        <>
+          <Text style={[styles.summary, { color: currentTheme.textColor }]}>
+            {formatTime(analysis.duration)} · {analysis.segments.length} notes
+            {averageCents !== null && ` · average ${averageCents}¢ off`}
+          </Text>
+          <FlatList
+            data={analysis.segments}
+            keyExtractor={item => String(item.start)}
+            renderItem={renderSegment}
+            ListEmptyComponent={
+              <Text style={[styles.summary, { color: currentTheme.textColor }]}>
+                No notes detected
+              </Text>
+            }
+          />
+        </>
+      )}
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  btn: {
+    width: '80%',
+    alignSelf: 'center',
+    paddingVertical: 14,
+    borderRadius: 6,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  btnText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  fileName: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  progress: {
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 20,
+  },
+  summary: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginVertical: 12,
+  },
+  error: {
+    color: '#e74c3c',
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  time: {
+    width: 70,
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  note: {
+    width: 50,
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  frequency: {
+    flex: 1,
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  centsColumn: {
+    alignItems: 'flex-end',
+  },
+  cents: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  centsRange: {
+    fontSize: 11,
+    color: 'gray',
+  },
+  dimmed: {
+    opacity: 0.4,
+  },
+});
+
+export default Screen4;
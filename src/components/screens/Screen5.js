@@ -0,0 +1,268 @@
+import React, { useCallback, useContext, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, FlatList } from 'react-native';
+import { useFocusEffect } from '@react-navigation/native';
+import Theme from '../layout/Theme';
+import { ThemeContext } from '../layout/ThemeContext';
+import {
+  IN_TUNE_CENTS,
+  loadSessionSummaries,
+  deletePracticeSession,
+  groupByWeek,
+  getNoteStats
+} from '../../utils/practiceSessions';
+import { CONCERT_PITCH_ID } from '../../utils/transposition';
+
+const VIEWS = [
+  { id: 'sessions', name: 'Sessions' },
+  { id: 'weekly', name: 'Weekly' }
+];
+
+const formatCents = cents => {
+  const rounded = Math.round(cents);
+  return rounded > 0 ? `+${rounded}` : `${rounded}`;
+};
+
+// m:ss
+const formatDuration = ms => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const formatDate = time =>
+  new Date(time).toLocaleString(undefined, {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatWeek = time =>
+  `Week of ${new Date(time).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+// Per-note average deviation, spread and time in tune
+const NoteTable = ({ notes, textColor }) => (
+  <View style={styles.table}>
+    <View style={styles.tableRow}>
+      <Text style={[styles.headerCell, styles.noteCell]}>Note</Text>
+      <Text style={styles.headerCell}>Average</Text>
+      <Text style={styles.headerCell}>Spread</Text>
+      <Text style={styles.headerCell}>In tune</Text>
+    </View>
+    {notes.map(getNoteStats).map(stats => (
+      <View key={stats.name} style={styles.tableRow}>
+        <Text style={[styles.cell, styles.noteCell, { color: textColor }]}>{stats.name}</Text>
+        <Text
+          style={[
+            styles.cell,
+            { color: Math.abs(stats.meanCents) <= IN_TUNE_CENTS ? '#2ecc71' : '#e74c3c' }
+          ]}
+        >
+          {formatCents(stats.meanCents)}¢
+        </Text>
+        <Text style={[styles.cell, { color: textColor }]}>±{Math.round(stats.spreadCents)}¢</Text>
+        <Text style={[styles.cell, { color: textColor }]}>{Math.round(stats.inTunePercent)}%</Text>
+      </View>
+    ))}
+  </View>
+);
+
+export const Screen5 = () => {
+  const { currentTheme } = useContext(ThemeContext);
+  const [sessions, setSessions] = useState([]);
+  const [view, setView] = useState('sessions');
+  const [expanded, setExpanded] = useState(null);
+
+  // Reload whenever the screen is shown, so a session just recorded appears
+  useFocusEffect(
+    useCallback(() => {
+      loadSessionSummaries()
+        .then(setSessions)
+        .catch(err => console.error('Failed to load practice sessions:', err));
+    }, [])
+  );
+
+  const removeSession = async id => {
+    try {
+      await deletePracticeSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+    } catch (err) {
+      console.error('Failed to delete practice session:', err);
+    }
+  };
+
+  const renderSession = ({ item }) => {
+    const isExpanded = item.id === expanded;
+
+    return (
+      <Pressable
+        style={[styles.row, { borderColor: currentTheme.textColor }]}
+        onPress={() => setExpanded(isExpanded ? null : item.id)}
+      >
+        <View style={styles.rowHeader}>
+          <Text style={[styles.title, { color: currentTheme.textColor }]}>
+            {formatDate(item.startedAt)}
+          </Text>
+          <Text style={styles.detail}>
+            {formatDuration(item.endedAt - item.startedAt)} · {item.notes.length} notes
+            {item.transposition !== CONCERT_PITCH_ID && ` · in ${item.transposition}`}
+          </Text>
+        </View>
+
+        {isExpanded && (
+          <>
+            <NoteTable notes={item.notes} textColor={currentTheme.textColor} />
+            <Pressable
+              style={[styles.deleteBtn, { borderColor: '#e74c3c' }]}
+              onPress={() => removeSession(item.id)}
+            >
+              <Text style={styles.deleteText}>Delete Session</Text>
+            </Pressable>
+          </>
+        )}
+      </Pressable>
+    );
+  };
+
+  const renderWeek = ({ item }) => (
+    <View style={[styles.row, { borderColor: currentTheme.textColor }]}>
+      <View style={styles.rowHeader}>
+        <Text style={[styles.title, { color: currentTheme.textColor }]}>
+          {formatWeek(item.weekStart)}
+        </Text>
+        <Text style={styles.detail}>
+          {item.sessions} {item.sessions === 1 ? 'session' : 'sessions'}
+        </Text>
+      </View>
+      <NoteTable notes={item.notes} textColor={currentTheme.textColor} />
+    </View>
+  );
+
+  return (
+    <Theme>
+      <View style={styles.viewRow}>
+        {VIEWS.map(({ id, name }) => (
+          <Pressable
+            key={id}
+            style={[
+              styles.viewBtn,
+              { borderColor: currentTheme.textColor },
+              id === view && { backgroundColor: currentTheme.textColor }
+            ]}
+            onPress={() => setView(id)}
+          >
+            <Text
+              style={[
+                styles.viewText,
+                { color: id === view ? currentTheme.backgroundColor : currentTheme.textColor }
+              ]}
+            >
+              {name}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      <Text style={styles.summary}>
+        Stable readings only · in tune within ±{IN_TUNE_CENTS}¢
+      </Text>
+
+      <FlatList
+        data={view === 'sessions' ? sessions : groupByWeek(sessions)}
+        keyExtractor={item => String(item.id ?? item.weekStart)}
+        renderItem={view === 'sessions' ? renderSession : renderWeek}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          <Text style={[styles.summary, { color: currentTheme.textColor }]}>
+            No practice sessions yet. Sessions are saved each time the tuner stops listening.
+          </Text>
+        }
+      />
+    </Theme>
+  );
+};
+
+const styles = StyleSheet.create({
+  viewRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 10,
+  },
+  viewBtn: {
+    paddingVertical: 8,
+    paddingHorizontal: 20,
+    borderRadius: 6,
+    borderWidth: 2,
+  },
+  viewText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summary: {
+    fontSize: 12,
+    color: 'gray',
+    textAlign: 'center',
+    marginVertical: 10,
+  },
+  list: {
+    width: '90%',
+    alignSelf: 'center',
+    paddingBottom: 20,
+  },
+  row: {
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  detail: {
+    fontSize: 12,
+    color: 'gray',
+  },
+  table: {
+    marginTop: 8,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    paddingVertical: 2,
+  },
+  headerCell: {
+    flex: 1,
+    fontSize: 12,
+    color: 'gray',
+    textAlign: 'right',
+  },
+  noteCell: {
+    textAlign: 'left',
+  },
+  cell: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+    fontVariant: ['tabular-nums'],
+  },
+  deleteBtn: {
+    alignSelf: 'flex-end',
+    marginTop: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  deleteText: {
+    color: '#e74c3c',
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
+
+export default Screen5;
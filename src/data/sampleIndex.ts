@@ -0,0 +1,95 @@
+// Generated by scripts/generate-sample-index.ts; do not edit by hand.
+// Options: dynamics pp,mf,ff, every 3 semitone(s)
+
+import type { SampleEntry, SampleInstrument } from '../utils/samplePlayer';
+
+export const SAMPLE_INSTRUMENTS: SampleInstrument[] = [
+  { id: 'Acc', name: 'Accordion' },
+];
+
+export const SAMPLES: SampleEntry[] = [
+  { instrument: 'Acc', pitchId: 28, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E1-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 28, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E1-mf-N-T17u.wav') },
+  { instrument: 'Acc', pitchId: 28, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E1-ff-N-T20u.wav') },
+  { instrument: 'Acc', pitchId: 31, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G1-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 31, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G1-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 31, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G1-ff-N-T20u.wav') },
+  { instrument: 'Acc', pitchId: 34, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#1-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 34, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#1-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 34, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#1-ff-N-T12u.wav') },
+  { instrument: 'Acc', pitchId: 37, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#2-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 37, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#2-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 37, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#2-ff-N-T12u.wav') },
+  { instrument: 'Acc', pitchId: 40, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E2-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 40, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E2-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 40, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E2-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 43, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G2-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 43, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G2-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 43, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G2-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 46, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#2-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 46, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#2-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 46, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#2-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 49, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#3-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 49, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#3-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 49, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#3-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 52, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E3-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 52, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E3-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 52, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E3-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 55, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G3-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 55, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G3-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 55, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G3-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 58, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#3-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 58, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#3-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 58, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#3-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 61, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#4-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 61, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#4-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 61, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#4-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 64, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E4-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 64, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E4-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 64, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E4-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 67, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G4-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 67, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G4-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 67, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G4-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 70, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#4-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 70, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#4-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 70, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#4-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 73, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#5-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 73, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#5-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 73, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#5-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 76, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E5-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 76, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E5-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 76, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E5-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 79, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G5-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 79, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G5-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 79, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G5-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 82, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#5-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 82, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#5-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 82, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#5-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 85, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#6-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 85, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#6-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 85, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#6-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 88, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E6-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 88, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E6-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 88, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E6-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 91, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G6-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 91, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G6-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 91, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G6-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 94, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#6-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 94, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#6-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 94, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#6-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 97, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#7-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 97, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#7-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 97, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#7-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 100, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E7-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 100, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E7-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 100, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-E7-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 103, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G7-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 103, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G7-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 103, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-G7-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 106, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#7-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 106, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#7-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 106, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-A#7-ff-N-N.wav') },
+  { instrument: 'Acc', pitchId: 109, dynamics: 'pp', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#8-pp-N-N.wav') },
+  { instrument: 'Acc', pitchId: 109, dynamics: 'mf', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#8-mf-N-N.wav') },
+  { instrument: 'Acc', pitchId: 109, dynamics: 'ff', source: require('./audio/Keyboards/Accordion/ordinario/Acc-ord-C#8-ff-N-N.wav') },
+];
@@ -0,0 +1,144 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { EarTrainerStatus, EarDirections } from '../components/layout/EarTrainer';
+import {
+  INTERVALS,
+  createQuestion,
+  gradeAnswer,
+  addToTallies,
+  loadTallies,
+  saveTallies,
+  fromNoteNumber,
+  IntervalQuestion,
+  IntervalGrade,
+  IntervalTallies,
+  IntervalDirection
+} from '../utils/intervals';
+import { getNoteFrequency } from '../utils/pitchAnalyzer';
+import { playTone, stopTone } from '../utils/toneGenerator';
+import { toConcertNote } from '../utils/transposition';
+
+// Length of the reference tone, the pause after it before an answer is
+// accepted (so the tone itself isn't graded, ms), and how many stable
+// readings of one note make an answer
+const EAR_TONE_SECONDS = 1.5;
+const EAR_ECHO_MS = 300;
+const EAR_ANSWER_READINGS = 10;
+
+// Interval ear training, starting from `reference` (written pitch) when one is set
+export function useEarTraining(transpositionSemitones: number, reference: number | null) {
+  const [question, setQuestion] = useState<IntervalQuestion | null>(null);
+  const [grade, setGrade] = useState<IntervalGrade | null>(null);
+  const [status, setStatus] = useState<EarTrainerStatus>('graded');
+  const [tallies, setTallies] = useState<IntervalTallies>({});
+  const [talliesLoaded, setTalliesLoaded] = useState(false);
+  const [directions, setDirections] = useState<EarDirections>('up');
+  const [drill, setDrill] = useState(false);
+  // The question being answered
+  const earRef = useRef({ question: null as IntervalQuestion | null, listenFrom: Infinity, answers: [] as number[] });
+  const timerRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Restore interval scores, and keep them saved
+  useEffect(() => {
+    loadTallies()
+      .then(setTallies)
+      .catch(err => console.error('Failed to load interval scores:', err))
+      .finally(() => setTalliesLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!talliesLoaded) return;
+    saveTallies(tallies).catch(err => console.error('Failed to save interval scores:', err));
+  }, [talliesLoaded, tallies]);
+
+  // Play the reference note, then accept an answer once it has died away
+  const play = (next: IntervalQuestion) => {
+    const note = fromNoteNumber(next.reference);
+    const concert = toConcertNote(note.note, note.octave, transpositionSemitones);
+    const frequency = getNoteFrequency(concert.note, concert.octave);
+    if (!frequency) return;
+
+    earRef.current = { question: next, listenFrom: Infinity, answers: [] };
+    setQuestion(next);
+    setGrade(null);
+    setStatus('listen');
+
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+    const startAnswer = () => {
+      timerRef.current = setTimeout(() => {
+        if (earRef.current.question !== next) return;
+        earRef.current.listenFrom = Date.now();
+        setStatus('answer');
+      }, EAR_TONE_SECONDS * 1000 + EAR_ECHO_MS);
+    };
+
+    playTone(frequency, { seconds: EAR_TONE_SECONDS })
+      .then(startAnswer)
+      .catch(err => {
+        console.error('Failed to play reference tone:', err);
+        startAnswer();
+      });
+  };
+
+  // A new question, weighted towards weak intervals when drilling
+  const next = () => {
+    const allowed: IntervalDirection[] = directions === 'both' ? ['up', 'down'] : [directions];
+    play(createQuestion(INTERVALS, allowed, tallies, drill, reference ?? undefined));
+  };
+
+  const replay = () => {
+    if (question) play(question);
+  };
+
+  // Stop asking: no tone, no answer pending, and no question shown
+  const stop = useCallback(() => {
+    earRef.current = { question: null, listenFrom: Infinity, answers: [] };
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    stopTone();
+    setQuestion(null);
+    setGrade(null);
+  }, []);
+
+  useEffect(() => stop, []);
+
+  // A stable reading as a fractional note number, or null when there is none.
+  // Once the reference has died away, a held note is the answer
+  const add = useCallback((pitch: number | null) => {
+    const ear = earRef.current;
+    if (!ear.question || pitch === null || Date.now() < ear.listenFrom) return;
+    if (ear.answers.length && Math.round(ear.answers[0]) !== Math.round(pitch)) {
+      ear.answers = [];
+    }
+    ear.answers.push(pitch);
+
+    if (ear.answers.length >= EAR_ANSWER_READINGS) {
+      const answered = ear.question;
+      const sorted = [...ear.answers].sort((a, b) => a - b);
+      const result = gradeAnswer(answered, sorted[Math.floor(sorted.length / 2)]);
+      ear.question = null;
+      setGrade(result);
+      setStatus('graded');
+      setTallies(prev => addToTallies(prev, answered, result));
+    }
+  }, []);
+
+  return {
+    question,
+    grade,
+    status,
+    tallies,
+    resetTallies: () => setTallies({}),
+    directions,
+    setDirections,
+    drill,
+    setDrill,
+    next,
+    replay,
+    stop,
+    add
+  };
+}
@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { createLongToneExercise, LongToneExercise, LongToneProgress, LongToneScore } from '../utils/longTone';
+import { toNoteNumber } from '../utils/intervals';
+
+// Defaults, and how often the progress is redrawn (ms)
+const DEFAULT_LONG_TONE_TOLERANCE = 5;
+const DEFAULT_LONG_TONE_SECONDS = 10;
+const LONG_TONE_REFRESH_MS = 100;
+
+// Long-tone exercise on the reference note
+export function useLongTone(referenceNote: string | null, referenceOctave: number) {
+  const [open, setOpen] = useState(false);
+  const [tolerance, setTolerance] = useState(DEFAULT_LONG_TONE_TOLERANCE);
+  const [duration, setDuration] = useState(DEFAULT_LONG_TONE_SECONDS);
+  const [progress, setProgress] = useState<LongToneProgress | null>(null);
+  const [score, setScore] = useState<LongToneScore | null>(null);
+  const longToneRef = useRef<{ exercise: LongToneExercise; target: number } | null>(null);
+
+  // Start holding the reference note
+  const start = () => {
+    if (!referenceNote) return;
+    longToneRef.current = {
+      exercise: createLongToneExercise({ toleranceCents: tolerance, durationSeconds: duration }),
+      target: toNoteNumber(referenceNote, referenceOctave)
+    };
+    setScore(null);
+    setProgress(longToneRef.current.exercise.getProgress());
+  };
+
+  // End the exercise, keeping its score unless it was abandoned
+  const stop = useCallback((keepScore = true) => {
+    const longTone = longToneRef.current;
+    longToneRef.current = null;
+    setProgress(null);
+    if (longTone && keepScore) {
+      setScore(longTone.exercise.getScore());
+    }
+  }, []);
+
+  // A stable reading as a fractional note number, or null when there is none
+  const add = useCallback((pitch: number | null) => {
+    const longTone = longToneRef.current;
+    longTone?.exercise.add(pitch === null ? null : 100 * (pitch - longTone.target));
+  }, []);
+
+  // Redraw the progress ring while an exercise runs, and finish it on time
+  const running = progress !== null;
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      const longTone = longToneRef.current;
+      if (!longTone) return;
+      const next = longTone.exercise.getProgress();
+      if (next.done) {
+        stop();
+      } else {
+        setProgress(next);
+      }
+    }, LONG_TONE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  // A new reference note starts the exercise over
+  useEffect(() => {
+    stop(false);
+    setScore(null);
+  }, [referenceNote, referenceOctave]);
+
+  return {
+    open,
+    setOpen,
+    tolerance,
+    setTolerance,
+    duration,
+    setDuration,
+    progress,
+    score,
+    start,
+    stop,
+    add
+  };
+}
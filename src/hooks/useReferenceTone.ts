@@ -0,0 +1,91 @@
+import { useState, useEffect } from 'react';
+import { getNoteFrequency } from '../utils/pitchAnalyzer';
+import { playTone, startDrone, stopDrone, setDroneVolume, Timbre } from '../utils/toneGenerator';
+import { playSample, stopSample, getSampleDynamics, DEFAULT_DYNAMICS } from '../utils/samplePlayer';
+import { toConcertNote } from '../utils/transposition';
+
+// Defaults, and the length of the tone a key press plays
+const DEFAULT_REFERENCE_TIMBRE: Timbre = 'sine';
+const DEFAULT_REFERENCE_VOLUME = 0.6;
+const REFERENCE_TONE_SECONDS = 1.5;
+
+// How the reference note sounds: a short tone (synthesized, or from an
+// instrument's recordings) or a drone that follows the note while it is on.
+// Notes are written pitch
+export function useReferenceTone(note: string | null, octave: number, transpositionSemitones: number) {
+  const [timbre, setTimbre] = useState<Timbre>(DEFAULT_REFERENCE_TIMBRE);
+  const [instrument, setInstrument] = useState<string | null>(null);
+  const [dynamics, setDynamics] = useState(DEFAULT_DYNAMICS);
+  const [volume, setVolume] = useState(DEFAULT_REFERENCE_VOLUME);
+  const [droneOn, setDroneOn] = useState(false);
+
+  // Sounding frequency of a written note
+  const getFrequency = (name: string, noteOctave = octave): number | null => {
+    const concert = toConcertNote(name, noteOctave, transpositionSemitones);
+    return getNoteFrequency(concert.note, concert.octave);
+  };
+
+  const frequency = note ? getFrequency(note) : null;
+
+  // The drone follows the reference note, octave and timbre while it is on.
+  // Recordings don't loop, so it is always synthesized
+  useEffect(() => {
+    if (!droneOn || !frequency) {
+      stopDrone();
+      return;
+    }
+    startDrone(frequency, { timbre, volume })
+      .catch(err => console.error('Failed to start drone:', err));
+  }, [droneOn, frequency, timbre]);
+
+  useEffect(() => {
+    setDroneVolume(volume).catch(() => {});
+  }, [volume]);
+
+  useEffect(() => () => {
+    stopDrone();
+    stopSample();
+  }, []);
+
+  // Sound a note once, unless the drone is already holding the reference,
+  // from the chosen instrument's recordings or synthesized
+  const play = (name: string, noteOctave = octave) => {
+    const toneFrequency = getFrequency(name, noteOctave);
+    if (!toneFrequency || droneOn) return;
+
+    const playing = instrument
+      ? playSample(instrument, toneFrequency, { dynamics, volume })
+      : playTone(toneFrequency, { seconds: REFERENCE_TONE_SECONDS, timbre, volume });
+    playing.catch(err => console.error('Failed to play reference tone:', err));
+  };
+
+  const selectTimbre = (next: Timbre) => {
+    setTimbre(next);
+    setInstrument(null);
+  };
+
+  // Switch to an instrument's recordings, keeping the dynamic if it was recorded
+  const selectInstrument = (next: string) => {
+    const recorded = getSampleDynamics(next);
+    setInstrument(next);
+    if (!recorded.includes(dynamics)) {
+      setDynamics(recorded.includes(DEFAULT_DYNAMICS) ? DEFAULT_DYNAMICS : recorded[0]);
+    }
+  };
+
+  return {
+    frequency,
+    getFrequency,
+    play,
+    timbre,
+    selectTimbre,
+    instrument,
+    selectInstrument,
+    dynamics,
+    setDynamics,
+    volume,
+    setVolume,
+    droneOn,
+    setDroneOn
+  };
+}
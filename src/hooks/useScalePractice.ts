@@ -0,0 +1,120 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LOWEST_KEY, HIGHEST_KEY } from '../components/layout/PianoKeyboard';
+import {
+  buildScale,
+  createScaleExercise,
+  getScaleType,
+  SCALE_TYPES,
+  ScaleDirection,
+  ScaleExercise,
+  ScaleNoteResult,
+  ScaleProgress
+} from '../utils/scales';
+import { toNoteNumber } from '../utils/intervals';
+
+// Default window, how long each note must be held in it, and how often the
+// progress is redrawn (ms)
+const DEFAULT_SCALE_TOLERANCE = 10;
+const SCALE_HOLD_SECONDS = 0.5;
+const SCALE_REFRESH_MS = 100;
+
+// Scale and arpeggio practice, starting from `startOctave`
+export function useScalePractice(startOctave: number) {
+  const [keyNote, setKeyNote] = useState('C');
+  const [octave, setOctave] = useState(startOctave);
+  const [type, setType] = useState(SCALE_TYPES[0].id);
+  const [octaves, setOctaves] = useState(1);
+  const [direction, setDirection] = useState<ScaleDirection>('updown');
+  const [tolerance, setTolerance] = useState(DEFAULT_SCALE_TOLERANCE);
+  const [progress, setProgress] = useState<ScaleProgress | null>(null);
+  const [results, setResults] = useState<ScaleNoteResult[] | null>(null);
+  // The run in progress
+  const scaleRef = useRef<ScaleExercise | null>(null);
+
+  const targets = buildScale(toNoteNumber(keyNote, octave), getScaleType(type), octaves, direction);
+
+  // Move the scale by octaves, keeping all of it on the keyboard
+  const shiftOctave = (delta: number) => {
+    const tonic = toNoteNumber(keyNote, octave + delta);
+    if (tonic < LOWEST_KEY || tonic + 12 * octaves > HIGHEST_KEY) return;
+    setOctave(octave + delta);
+  };
+
+  // A new key or range drops the scale as far as needed to keep its top note on the keyboard
+  const fit = (key: string, range: number) => {
+    let fitted = octave;
+    while (fitted > 0 && toNoteNumber(key, fitted) + 12 * range > HIGHEST_KEY) fitted--;
+    setKeyNote(key);
+    setOctaves(range);
+    setOctave(fitted);
+  };
+
+  // Start from the first note
+  const start = () => {
+    scaleRef.current = createScaleExercise(targets, {
+      toleranceCents: tolerance,
+      holdSeconds: SCALE_HOLD_SECONDS
+    });
+    setResults([]);
+    setProgress(scaleRef.current.getProgress());
+  };
+
+  // End the run, keeping the notes completed for the summary
+  const stop = useCallback(() => {
+    const exercise = scaleRef.current;
+    scaleRef.current = null;
+    setProgress(null);
+    if (exercise) {
+      setResults(exercise.getResults());
+    }
+  }, []);
+
+  // A stable reading as a fractional note number, or null when there is none
+  const add = useCallback((pitch: number | null) => {
+    scaleRef.current?.add(pitch);
+  }, []);
+
+  // Redraw the progress while a run is on, and finish it after the last note
+  const running = progress !== null;
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(() => {
+      const exercise = scaleRef.current;
+      if (!exercise) return;
+      const next = exercise.getProgress();
+      if (next.done) {
+        stop();
+      } else {
+        setProgress(next);
+        setResults(exercise.getResults());
+      }
+    }, SCALE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [running]);
+
+  // Different settings make a different exercise
+  useEffect(() => {
+    setResults(null);
+  }, [keyNote, octave, type, octaves, direction]);
+
+  return {
+    keyNote,
+    changeKey: (key: string) => fit(key, octaves),
+    octave,
+    shiftOctave,
+    type,
+    setType,
+    octaves,
+    changeOctaves: (range: number) => fit(keyNote, range),
+    direction,
+    setDirection,
+    tolerance,
+    setTolerance,
+    targets,
+    progress,
+    results,
+    start,
+    stop,
+    add
+  };
+}
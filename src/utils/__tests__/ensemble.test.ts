@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { resolveEnsemble, CHROMA, EnsembleFrame } from '../ensemble';
+
+const SAMPLE_RATE = 16000;
+const FFT_SIZE = 4096;
+
+// Amplitude spectrum with a narrow peak at each frequency
+function makeFrame(peaks: number[]): EnsembleFrame {
+  const spectrum = new Float32Array(FFT_SIZE / 2);
+  const binWidth = SAMPLE_RATE / FFT_SIZE;
+  for (const frequency of peaks) {
+    const centre = frequency / binWidth;
+    for (let bin = Math.floor(centre) - 3; bin <= Math.ceil(centre) + 3; bin++) {
+      spectrum[bin] += Math.exp(-((bin - centre) ** 2) / 2);
+    }
+  }
+  return { spectrum, sampleRate: SAMPLE_RATE, minFrequency: 80, maxFrequency: 1500 };
+}
+
+// Chroma vector favouring one class
+function chromaFor(note: string, probability = 0.9): number[] {
+  return CHROMA.map(name => (name === note ? probability : 0.01));
+}
+
+const cents = (a: number, b: number) => 1200 * Math.log2(a / b);
+
+describe('resolveEnsemble', () => {
+  it('keeps the DSP frequency when the model agrees', () => {
+    const result = resolveEnsemble(440, chromaFor('A'), makeFrame([440]));
+    expect(result.decision.action).toBe('agree');
+    expect(result.frequency).toBe(440);
+  });
+
+  it('ignores a model preference inside the veto margin', () => {
+    const chroma = chromaFor('A', 0.4);
+    chroma[CHROMA.indexOf('A#')] = 0.6;
+    const result = resolveEnsemble(440, chroma, makeFrame([440]));
+    expect(result.decision.action).toBe('agree');
+    expect(result.frequency).toBe(440);
+  });
+
+  it('moves a third-harmonic lock down to the fundamental', () => {
+    const result = resolveEnsemble(660, chromaFor('A'), makeFrame([220, 440, 660]));
+    expect(result.decision.action).toBe('corrected');
+    expect(result.decision.ratio).toBeCloseTo(1 / 3);
+    expect(result.frequency).toBeCloseTo(220);
+  });
+
+  it('moves a subharmonic lock up a fifth', () => {
+    const result = resolveEnsemble(440, chromaFor('E'), makeFrame([660]));
+    expect(result.decision.action).toBe('corrected');
+    expect(result.decision.ratio).toBeCloseTo(3 / 2);
+    expect(result.frequency).toBeCloseTo(660);
+  });
+
+  it('finds the model note a semitone above in the spectrum', () => {
+    const result = resolveEnsemble(415.3, chromaFor('A'), makeFrame([440]));
+    expect(result.decision.action).toBe('corrected');
+    expect(result.decision.dspNote).toBe('G#');
+    expect(Math.abs(cents(result.frequency!, 440))).toBeLessThan(10);
+  });
+
+  it('finds the model note a semitone below in the spectrum', () => {
+    const result = resolveEnsemble(466.2, chromaFor('A'), makeFrame([440, 466.2]));
+    expect(result.decision.action).toBe('corrected');
+    expect(Math.abs(cents(result.frequency!, 440))).toBeLessThan(10);
+  });
+
+  it('rejects the frame when the spectrum has nothing at the model note', () => {
+    const result = resolveEnsemble(415.3, chromaFor('A'), makeFrame([415.3]));
+    expect(result.decision.action).toBe('rejected');
+    expect(result.frequency).toBeNull();
+  });
+
+  it('keeps other disagreements but marks them disputed', () => {
+    const result = resolveEnsemble(440, chromaFor('C'), makeFrame([440]));
+    expect(result.decision.action).toBe('disputed');
+    expect(result.frequency).toBe(440);
+    expect(result.probability).toBeLessThan(0.1);
+  });
+});
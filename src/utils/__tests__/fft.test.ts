@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { autocorrelation, yinDifference } from '../fft';
+
+// Two partials and a little deterministic noise, at a length that isn't a power of two
+function makeSignal(length: number): Float32Array {
+  const signal = new Float32Array(length);
+  let seed = 1;
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    signal[i] = Math.sin(2 * Math.PI * i / 37.3) + 0.5 * Math.sin(2 * Math.PI * i / 12.1) +
+      0.1 * (seed / 2147483647 - 0.5);
+  }
+  return signal;
+}
+
+// Largest difference from the direct sums, relative to their largest value
+function relativeError(actual: Float32Array, expected: number[]): number {
+  const scale = Math.max(...expected.map(Math.abs));
+  return Math.max(...expected.map((value, i) => Math.abs(actual[i] - value))) / scale;
+}
+
+const signal = makeSignal(1000);
+
+describe('autocorrelation', () => {
+  it('matches the direct sum at every lag', () => {
+    const lags = 300;
+    const expected = Array.from({ length: lags }, (_, lag) => {
+      let sum = 0;
+      for (let i = 0; i + lag < signal.length; i++) sum += signal[i] * signal[i + lag];
+      return sum;
+    });
+
+    const out = autocorrelation(signal, new Float32Array(lags));
+    expect(relativeError(out, expected)).toBeLessThan(1e-6);
+  });
+});
+
+describe('yinDifference', () => {
+  it('matches the direct sum over the first half at every lag', () => {
+    const window = signal.length / 2;
+    const lags = window;
+    const expected = Array.from({ length: lags }, (_, tau) => {
+      let sum = 0;
+      for (let i = 0; i < window; i++) sum += (signal[i] - signal[i + tau]) ** 2;
+      return sum;
+    });
+
+    const out = yinDifference(signal, new Float32Array(lags));
+    expect(out[0]).toBe(0);
+    expect(relativeError(out, expected)).toBeLessThan(1e-6);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Tallies are never stored here
+vi.mock('@react-native-async-storage/async-storage', () => ({ default: {} }));
+
+import {
+  INTERVALS,
+  IntervalQuestion,
+  addToTallies,
+  createQuestion,
+  formatNoteNumber,
+  fromNoteNumber,
+  gradeAnswer,
+  toNoteNumber
+} from '../intervals';
+
+const interval = (id: string) => INTERVALS.find(i => i.id === id)!;
+
+// A perfect fifth up from C4
+const fifthUp: IntervalQuestion = { interval: interval('P5'), direction: 'up', reference: 60, target: 67 };
+
+describe('note numbers', () => {
+  it('round-trips names and octaves', () => {
+    expect(toNoteNumber('A', 4)).toBe(69);
+    expect(toNoteNumber('C', 4)).toBe(60);
+    expect(fromNoteNumber(61)).toEqual({ note: 'C#', octave: 4 });
+    expect(fromNoteNumber(59.6)).toEqual({ note: 'C', octave: 4 });
+    expect(formatNoteNumber(21)).toBe('A0');
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('accepts the right note within the tolerance', () => {
+    const grade = gradeAnswer(fifthUp, 67.3);
+    expect(grade.correct).toBe(true);
+    expect(grade.error).toBeCloseTo(30);
+    expect(grade.semitones).toBeCloseTo(7.3);
+    expect(grade.heard?.id).toBe('P5');
+  });
+
+  it('rejects an answer past the tolerance and names what was sung', () => {
+    const grade = gradeAnswer(fifthUp, 66);
+    expect(grade.correct).toBe(false);
+    expect(grade.error).toBeCloseTo(-100);
+    expect(grade.heard?.id).toBe('TT');
+  });
+
+  it('counts octaves, so a twelfth is not a fifth', () => {
+    const grade = gradeAnswer(fifthUp, 79);
+    expect(grade.correct).toBe(false);
+    expect(grade.error).toBeCloseTo(1200);
+    expect(grade.heard).toBeNull();
+  });
+
+  it('measures a downward interval by its size', () => {
+    const thirdDown: IntervalQuestion = { interval: interval('M3'), direction: 'down', reference: 60, target: 56 };
+    const grade = gradeAnswer(thirdDown, 55.9);
+    expect(grade.correct).toBe(true);
+    expect(grade.semitones).toBeCloseTo(-4.1);
+    expect(grade.heard?.id).toBe('M3');
+  });
+});
+
+describe('addToTallies', () => {
+  it('adds the attempt without changing the old tallies', () => {
+    const before = {};
+    const after = addToTallies(before, fifthUp, gradeAnswer(fifthUp, 67.2));
+    const again = addToTallies(after, fifthUp, gradeAnswer(fifthUp, 66));
+    expect(before).toEqual({});
+    expect(again.P5.attempts).toBe(2);
+    expect(again.P5.correct).toBe(1);
+    expect(again.P5.totalError).toBeCloseTo(120);
+  });
+});
+
+describe('createQuestion', () => {
+  it('keeps a fixed reference and sets the target from the direction', () => {
+    const question = createQuestion([interval('m3')], ['down'], {}, false, 64);
+    expect(question).toMatchObject({ reference: 64, target: 61, direction: 'down' });
+  });
+
+  it('keeps both notes between C3 and C5', () => {
+    for (let i = 0; i < 200; i++) {
+      const question = createQuestion(INTERVALS, ['up', 'down'], {}, true);
+      for (const note of [question.reference, question.target]) {
+        expect(note).toBeGreaterThanOrEqual(48);
+        expect(note).toBeLessThanOrEqual(72);
+      }
+    }
+  });
+});
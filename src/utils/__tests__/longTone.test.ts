@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { createLongToneExercise } from '../longTone';
+
+const options = { toleranceCents: 5, durationSeconds: 2 };
+
+// A reading every 100 ms from `start`
+const hold = (exercise: ReturnType<typeof createLongToneExercise>, deviation: number | null, start: number, count: number) => {
+  for (let i = 0; i < count; i++) exercise.add(deviation, start + 100 * i);
+};
+
+describe('createLongToneExercise', () => {
+  it('scores a note held in the window throughout', () => {
+    const exercise = createLongToneExercise(options, 0);
+    hold(exercise, 2, 0, 20);
+    const score = exercise.getScore(2000);
+    expect(score.timeInTune).toBeCloseTo(2);
+    expect(score.inTunePercent).toBeCloseTo(100);
+    expect(score.meanDeviation).toBeCloseTo(2);
+    expect(score.maxDrift).toBe(2);
+  });
+
+  it('counts only the time inside the window', () => {
+    const exercise = createLongToneExercise(options, 0);
+    hold(exercise, 3, 0, 10);
+    hold(exercise, -12, 1000, 10);
+    const score = exercise.getScore(2000);
+    expect(score.timeInTune).toBeCloseTo(1);
+    expect(score.inTunePercent).toBeCloseTo(50);
+    expect(score.meanDeviation).toBeCloseTo(-4.5);
+    expect(score.maxDrift).toBe(-12);
+  });
+
+  it('does not credit a silence', () => {
+    const exercise = createLongToneExercise(options, 0);
+    exercise.add(0, 0);
+    expect(exercise.getProgress(1000).inTune).toBeCloseTo(0.25);
+    expect(exercise.getProgress(1000).deviation).toBeNull();
+    hold(exercise, null, 500, 5);
+    expect(exercise.getScore(2000).timeInTune).toBeCloseTo(0.25);
+  });
+
+  it('scores the time so far when stopped early', () => {
+    const exercise = createLongToneExercise(options, 0);
+    hold(exercise, 0, 0, 5);
+    const score = exercise.getScore(500);
+    expect(score.duration).toBeCloseTo(0.5);
+    expect(score.inTunePercent).toBeCloseTo(100);
+  });
+
+  it('ignores readings after the end', () => {
+    const exercise = createLongToneExercise(options, 0);
+    hold(exercise, 0, 0, 30);
+    expect(exercise.getProgress(3000).done).toBe(true);
+    expect(exercise.getScore(3000).maxDrift).toBe(0);
+    expect(exercise.getScore(3000).duration).toBeCloseTo(2);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// Only the rendering is tested, so the native audio modules are never used
+vi.mock('expo-av', () => ({ Audio: {} }));
+vi.mock('expo-file-system', () => ({}));
+
+import { renderBar, clampBpm, getBeatMs, MetronomeSettings } from '../metronome';
+import { SAMPLE_RATE } from '../toneGenerator';
+
+// Sample offsets where a click starts: the first non-silent sample after silence
+function clickStarts(samples: Float32Array): number[] {
+  const starts: number[] = [];
+  for (let i = 0; i < samples.length; i++) {
+    if (samples[i] === 0) continue;
+    // Each click begins on sin(0) = 0, so look back past that sample
+    if (i < 2 || samples[i - 2] === 0) starts.push(i - 1);
+    while (i < samples.length && samples[i] !== 0) i++;
+  }
+  return starts;
+}
+
+// Peak level of the click starting at `start`
+const peak = (samples: Float32Array, start: number) =>
+  Math.max(...Array.from(samples.subarray(start, start + 200), Math.abs));
+
+const settings = (overrides: Partial<MetronomeSettings>): MetronomeSettings => ({
+  bpm: 120,
+  beatsPerBar: 4,
+  subdivision: 1,
+  accent: true,
+  ...overrides
+});
+
+describe('renderBar', () => {
+  it('is exactly one bar long', () => {
+    expect(renderBar(settings({})).length).toBe(2 * SAMPLE_RATE);
+    expect(renderBar(settings({ bpm: 90, beatsPerBar: 3 })).length).toBe(Math.round(SAMPLE_RATE * 2));
+  });
+
+  it('places a click on every beat', () => {
+    const beat = SAMPLE_RATE / 2;
+    expect(clickStarts(renderBar(settings({})))).toEqual([0, beat, 2 * beat, 3 * beat]);
+  });
+
+  it('rounds each click from the start of the bar', () => {
+    // 7 beats at 97 BPM don't fall on whole samples
+    const beatSamples = SAMPLE_RATE * 60 / 97;
+    const starts = clickStarts(renderBar(settings({ bpm: 97, beatsPerBar: 7 })));
+    expect(starts).toEqual(Array.from({ length: 7 }, (_, beat) => Math.round(beat * beatSamples)));
+  });
+
+  it('places triplet clicks between the beats', () => {
+    const beatSamples = SAMPLE_RATE / 2;
+    const starts = clickStarts(renderBar(settings({ beatsPerBar: 2, subdivision: 3 })));
+    expect(starts).toEqual([0, 1, 2, 3, 4, 5].map(n => Math.round(n / 3 * beatSamples)));
+  });
+
+  it('accents the first beat only when asked', () => {
+    const beat = SAMPLE_RATE / 2;
+    const accented = renderBar(settings({}));
+    expect(peak(accented, 0)).toBeGreaterThan(peak(accented, beat));
+    const plain = renderBar(settings({ accent: false }));
+    expect(peak(plain, 0)).toBeCloseTo(peak(plain, beat));
+  });
+
+  it('plays subdivisions quieter than the beat', () => {
+    const samples = renderBar(settings({ subdivision: 2, accent: false }));
+    expect(peak(samples, SAMPLE_RATE / 4)).toBeLessThan(peak(samples, 0));
+  });
+});
+
+describe('tempo helpers', () => {
+  it('keeps the tempo in range and whole', () => {
+    expect(clampBpm(5)).toBe(20);
+    expect(clampBpm(999)).toBe(300);
+    expect(clampBpm(100.4)).toBe(100);
+  });
+
+  it('gives the beat length in milliseconds', () => {
+    expect(getBeatMs(120)).toBe(500);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildScale, createScaleExercise, getScaleType } from '../scales';
+
+const C4 = 60;
+const A3 = 57;
+
+describe('buildScale', () => {
+  it('climbs a major scale to the tonic above', () => {
+    expect(buildScale(C4, getScaleType('major'), 1, 'up')).toEqual([60, 62, 64, 65, 67, 69, 71, 72]);
+  });
+
+  it('comes down melodic minor on its descending form', () => {
+    expect(buildScale(A3, getScaleType('melodic-minor'), 1, 'updown')).toEqual(
+      [57, 59, 60, 62, 64, 66, 68, 69, 67, 65, 64, 62, 60, 59, 57]
+    );
+  });
+
+  it('plays the top note once over two octaves', () => {
+    expect(buildScale(C4, getScaleType('major-arpeggio'), 2, 'updown')).toEqual(
+      [60, 64, 67, 72, 76, 79, 84, 79, 76, 72, 67, 64, 60]
+    );
+  });
+
+  it('falls back to major for an unknown id', () => {
+    expect(getScaleType('nonsense').id).toBe('major');
+  });
+});
+
+describe('createScaleExercise', () => {
+  const options = { toleranceCents: 10, holdSeconds: 0.5 };
+
+  // A stable reading every 100 ms from `start`, at `cents` off the note
+  const sing = (exercise: ReturnType<typeof createScaleExercise>, note: number, cents: number, start: number, count: number) => {
+    for (let i = 0; i < count; i++) exercise.add(note + cents / 100, start + 100 * i);
+  };
+
+  it('moves on once a note is held in the window', () => {
+    const exercise = createScaleExercise([60, 62], options, 0);
+    sing(exercise, 60, 4, 0, 6);
+    const [result] = exercise.getResults();
+    expect(result.target).toBe(60);
+    expect(result.meanDeviation).toBeCloseTo(4);
+    expect(exercise.getProgress(600).index).toBe(1);
+  });
+
+  it('does not count a note held outside the window', () => {
+    const exercise = createScaleExercise([60], options, 0);
+    sing(exercise, 60, 14, 0, 10);
+    expect(exercise.getResults()).toEqual([]);
+    expect(exercise.getProgress(900).deviation).toBeCloseTo(14);
+  });
+
+  it('starts the hold over after a gap in the readings', () => {
+    const exercise = createScaleExercise([60], options, 0);
+    sing(exercise, 60, 0, 0, 4);
+    exercise.add(null, 400);
+    sing(exercise, 60, 0, 500, 4);
+    expect(exercise.getResults()).toEqual([]);
+    expect(exercise.getProgress(800).held).toBeCloseTo(0.6);
+  });
+
+  it('is done after the last note', () => {
+    const exercise = createScaleExercise([60], options, 0);
+    sing(exercise, 60, 0, 0, 6);
+    expect(exercise.getProgress(600)).toMatchObject({ done: true, held: 1, deviation: null });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CUSTOM_STRINGS,
+  MAX_STRINGS,
+  findNearestString,
+  getStringRange,
+  getStringSet,
+  parseStringName,
+  sanitizeStrings,
+  shiftString
+} from '../stringSets';
+
+describe('parseStringName', () => {
+  it('reads a note and octave', () => {
+    expect(parseStringName(' C#2 ')).toEqual({ note: 'C#', octave: 2 });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseStringName('H3')).toBeNull();
+    expect(parseStringName('Bb3')).toBeNull();
+    expect(parseStringName('E')).toBeNull();
+  });
+});
+
+describe('sanitizeStrings', () => {
+  it('keeps well-formed strings and drops extra fields', () => {
+    expect(sanitizeStrings([{ note: 'G', octave: 3, label: 'x' }, { note: 'D', octave: 4 }])).toEqual([
+      { note: 'G', octave: 3 },
+      { note: 'D', octave: 4 }
+    ]);
+  });
+
+  it('drops unknown notes and octaves out of range', () => {
+    const stored = [null, 'E2', { note: 'H', octave: 2 }, { note: 'A', octave: 9 }, { note: 'A', octave: 1.5 }, { note: 'A', octave: 2 }];
+    expect(sanitizeStrings(stored)).toEqual([{ note: 'A', octave: 2 }]);
+  });
+
+  it('falls back to the default set when nothing usable is stored', () => {
+    expect(sanitizeStrings(undefined)).toBe(DEFAULT_CUSTOM_STRINGS);
+    expect(sanitizeStrings({ note: 'E', octave: 2 })).toBe(DEFAULT_CUSTOM_STRINGS);
+    expect(sanitizeStrings([{ note: 'E' }])).toBe(DEFAULT_CUSTOM_STRINGS);
+  });
+
+  it('keeps at most MAX_STRINGS', () => {
+    const many = Array.from({ length: MAX_STRINGS + 3 }, () => ({ note: 'E', octave: 2 }));
+    expect(sanitizeStrings(many)).toHaveLength(MAX_STRINGS);
+  });
+});
+
+describe('shiftString', () => {
+  it('crosses octave boundaries', () => {
+    expect(shiftString({ note: 'B', octave: 2 }, 1)).toEqual({ note: 'C', octave: 3 });
+    expect(shiftString({ note: 'C', octave: 3 }, -1)).toEqual({ note: 'B', octave: 2 });
+  });
+
+  it('stops at the custom-set limits', () => {
+    expect(shiftString({ note: 'C#', octave: 0 }, -5)).toEqual({ note: 'C', octave: 0 });
+    expect(shiftString({ note: 'A', octave: 6 }, 12)).toEqual({ note: 'B', octave: 6 });
+  });
+});
+
+describe('findNearestString', () => {
+  // Equal temperament from A4 = 440 Hz
+  const frequencyOf = ({ note, octave }: { note: string; octave: number }) => {
+    const index = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'].indexOf(note);
+    return 440 * Math.pow(2, (12 * (octave + 1) + index - 69) / 12);
+  };
+
+  it('picks the closest string and its deviation', () => {
+    const violin = getStringSet('violin').strings;
+    const match = findNearestString(violin, 440 * Math.pow(2, 10 / 1200), frequencyOf);
+    expect(match?.index).toBe(2);
+    expect(match?.cents).toBeCloseTo(10);
+  });
+
+  it('skips strings without a target', () => {
+    const violin = getStringSet('violin').strings;
+    const match = findNearestString(violin, 440, string => (string.note === 'A' ? null : frequencyOf(string)));
+    expect(match?.index).toBe(1);
+  });
+});
+
+describe('getStringRange', () => {
+  it('reaches a whole tone past the lowest and highest strings', () => {
+    const bass = getStringRange(getStringSet('bass').strings, 440);
+    expect(bass.minFrequency).toBeCloseTo(41.2 * Math.pow(2, -2 / 12), 1); // E1
+    expect(bass.maxFrequency).toBeCloseTo(98 * Math.pow(2, 2 / 12), 1);    // G2
+  });
+
+  it('follows concert pitch', () => {
+    const violin = getStringRange(getStringSet('violin').strings, 442);
+    expect(violin.maxFrequency / getStringRange(getStringSet('violin').strings, 440).maxFrequency).toBeCloseTo(442 / 440);
+  });
+});
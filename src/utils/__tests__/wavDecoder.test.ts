@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { decodeAudioFile, decodeAiff, decodeWav } from '../wavDecoder';
+
+// Build a file from chunks of [id, body]
+function riff(form: string, formType: string, chunks: [string, Uint8Array][], littleEndian: boolean): Uint8Array {
+  const size = 4 + chunks.reduce((sum, [, body]) => sum + 8 + body.length + (body.length % 2), 0);
+  const bytes = new Uint8Array(8 + size);
+  const view = new DataView(bytes.buffer);
+  const tag = (offset: number, text: string) => [...text].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  tag(0, form);
+  view.setUint32(4, size, littleEndian);
+  tag(8, formType);
+  let offset = 12;
+  for (const [id, body] of chunks) {
+    tag(offset, id);
+    view.setUint32(offset + 4, body.length, littleEndian);
+    bytes.set(body, offset + 8);
+    offset += 8 + body.length + (body.length % 2);
+  }
+  return bytes;
+}
+
+function wavFmt(format: number, channels: number, sampleRate: number, bits: number): Uint8Array {
+  const body = new Uint8Array(16);
+  const view = new DataView(body.buffer);
+  view.setUint16(0, format, true);
+  view.setUint16(2, channels, true);
+  view.setUint32(4, sampleRate, true);
+  view.setUint32(8, sampleRate * channels * bits / 8, true);
+  view.setUint16(12, channels * bits / 8, true);
+  view.setUint16(14, bits, true);
+  return body;
+}
+
+const int16 = (values: number[], littleEndian = true) => {
+  const body = new Uint8Array(2 * values.length);
+  values.forEach((value, i) => new DataView(body.buffer).setInt16(2 * i, value, littleEndian));
+  return body;
+};
+
+describe('decodeWav', () => {
+  it('reads 16-bit mono PCM', () => {
+    const bytes = riff('RIFF', 'WAVE', [['fmt ', wavFmt(1, 1, 8000, 16)], ['data', int16([0, 1000, -1000])]], true);
+    const audio = decodeWav(bytes);
+    expect(audio.sampleRate).toBe(8000);
+    expect(Array.from(audio.samples)).toEqual([0, 1000, -1000]);
+    expect(audio.duration).toBeCloseTo(3 / 8000);
+  });
+
+  it('mixes stereo down to mono', () => {
+    const bytes = riff('RIFF', 'WAVE', [['fmt ', wavFmt(1, 2, 44100, 16)], ['data', int16([1000, 3000, -2000, 0])]], true);
+    const audio = decodeWav(bytes);
+    expect(audio.channels).toBe(2);
+    expect(Array.from(audio.samples)).toEqual([2000, -1000]);
+  });
+
+  it('reads 32-bit float and skips unknown chunks', () => {
+    const data = new Uint8Array(8);
+    new DataView(data.buffer).setFloat32(0, 0.5, true);
+    new DataView(data.buffer).setFloat32(4, -1, true);
+    const bytes = riff('RIFF', 'WAVE', [
+      ['fmt ', wavFmt(3, 1, 16000, 32)],
+      ['LIST', new Uint8Array(3)],
+      ['data', data]
+    ], true);
+    expect(Array.from(decodeWav(bytes).samples)).toEqual([Math.round(0.5 * 32767), -32767]);
+  });
+
+  it('reads 8-bit PCM as unsigned', () => {
+    const bytes = riff('RIFF', 'WAVE', [['fmt ', wavFmt(1, 1, 8000, 8)], ['data', Uint8Array.from([128, 192])]], true);
+    expect(Array.from(decodeWav(bytes).samples)).toEqual([0, Math.round(0.5 * 32767)]);
+  });
+
+  it('rejects compressed formats and missing chunks', () => {
+    expect(() => decodeWav(riff('RIFF', 'WAVE', [['fmt ', wavFmt(2, 1, 8000, 4)], ['data', new Uint8Array(4)]], true)))
+      .toThrow('Unsupported WAV format code: 2');
+    expect(() => decodeWav(riff('RIFF', 'WAVE', [['fmt ', wavFmt(1, 1, 8000, 16)]], true)))
+      .toThrow('missing its format or data chunk');
+  });
+});
+
+describe('decodeAiff', () => {
+  // COMM chunk for 16-bit PCM at 44.1 kHz
+  function comm(channels: number, frames: number): Uint8Array {
+    const body = new Uint8Array(18);
+    const view = new DataView(body.buffer);
+    view.setUint16(0, channels);
+    view.setUint32(2, frames);
+    view.setUint16(6, 16);
+    // 44100 as an 80-bit extended float
+    view.setUint16(8, 16383 + 15);
+    view.setUint32(10, 44100 * 2 ** 16);
+    return body;
+  }
+
+  const ssnd = (data: Uint8Array) => {
+    const body = new Uint8Array(8 + data.length);
+    body.set(data, 8);
+    return body;
+  };
+
+  it('reads big-endian PCM and the extended sample rate', () => {
+    const bytes = riff('FORM', 'AIFF', [['COMM', comm(1, 2)], ['SSND', ssnd(int16([1234, -1234], false))]], false);
+    const audio = decodeAiff(bytes);
+    expect(audio.sampleRate).toBe(44100);
+    expect(Array.from(audio.samples)).toEqual([1234, -1234]);
+  });
+});
+
+describe('decodeAudioFile', () => {
+  it('picks the decoder from the header', () => {
+    const wav = riff('RIFF', 'WAVE', [['fmt ', wavFmt(1, 1, 8000, 16)], ['data', int16([7])]], true);
+    expect(Array.from(decodeAudioFile(wav).samples)).toEqual([7]);
+  });
+
+  it('rejects other files', () => {
+    expect(() => decodeAudioFile(new TextEncoder().encode('ID3 not audio'))).toThrow('Unsupported audio file');
+  });
+});
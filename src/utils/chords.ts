@@ -0,0 +1,291 @@
+// Polyphonic note estimation and chord naming.
+// Notes are found one at a time from the amplitude spectrum: every semitone in
+// range is scored by the weighted sum of its harmonics, the strongest is kept
+// and its harmonics are removed before the next pass (iterative estimation and
+// cancellation). Harmonics shared with a note still to be found are only
+// removed down to the level of their neighbours, so they keep supporting it.
+
+// A note found in a polyphonic frame
+export interface PolyphonicNote {
+  frequency: number; // Hz, refined from the fundamental's peak when there is one
+  salience: number;  // Weighted harmonic sum, relative to the strongest note (0 to 1)
+}
+
+export interface ChordName {
+  name: string;    // Chord symbol, e.g. "C", "G7", "Am/E"
+  root: string;
+  bass: string;
+  quality: string; // e.g. "major", "dominant seventh"
+}
+
+interface ChordType {
+  suffix: string;
+  quality: string;
+  intervals: number[]; // Semitones above the root
+}
+
+const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Listed in order of preference when two chords share the same notes
+const CHORD_TYPES: ChordType[] = [
+  { suffix: '', quality: 'major', intervals: [0, 4, 7] },
+  { suffix: 'm', quality: 'minor', intervals: [0, 3, 7] },
+  { suffix: '7', quality: 'dominant seventh', intervals: [0, 4, 7, 10] },
+  { suffix: 'maj7', quality: 'major seventh', intervals: [0, 4, 7, 11] },
+  { suffix: 'm7', quality: 'minor seventh', intervals: [0, 3, 7, 10] },
+  { suffix: 'dim', quality: 'diminished', intervals: [0, 3, 6] },
+  { suffix: 'aug', quality: 'augmented', intervals: [0, 4, 8] },
+  { suffix: 'sus4', quality: 'suspended fourth', intervals: [0, 5, 7] },
+  { suffix: 'sus2', quality: 'suspended second', intervals: [0, 2, 7] },
+  { suffix: 'm7b5', quality: 'half-diminished', intervals: [0, 3, 6, 10] },
+  { suffix: 'dim7', quality: 'diminished seventh', intervals: [0, 3, 6, 9] },
+  { suffix: '6', quality: 'major sixth', intervals: [0, 4, 7, 9] },
+  { suffix: 'm6', quality: 'minor sixth', intervals: [0, 3, 7, 9] },
+  { suffix: 'mMaj7', quality: 'minor major seventh', intervals: [0, 3, 7, 11] },
+  { suffix: '9', quality: 'dominant ninth', intervals: [0, 2, 4, 7, 10] },
+  { suffix: 'maj9', quality: 'major ninth', intervals: [0, 2, 4, 7, 11] },
+  { suffix: 'm9', quality: 'minor ninth', intervals: [0, 2, 3, 7, 10] },
+  { suffix: '5', quality: 'power chord', intervals: [0, 7] }
+];
+
+// Estimation settings
+const MAX_NOTES = 6;
+const MAX_HARMONICS = 10;
+const HARMONIC_TOLERANCE_CENTS = 30; // Search +/- this around each predicted harmonic
+const NOTE_THRESHOLD = 0.2;          // Weakest note kept, relative to the strongest
+const HARMONIC_NOTE_THRESHOLD = 0.5; // The same for a note on a harmonic of one already found
+const HARMONIC_NOTE_HARMONICS = 8;   // Harmonics of a found note that get the higher threshold
+const SUBHARMONIC_SUPPORT = 0.1;     // Fundamental at f0 / k that makes it the note instead
+const MAX_DIVISOR = 5;
+const CANCEL_BINS = 2;               // Window main lobe either side of a harmonic's search range
+
+// Harmonic weights (f0 + ALPHA) / (h * f0 + BETA): low harmonics of high notes
+// count for more than the dense upper harmonics of low ones
+const ALPHA = 27;
+const BETA = 320;
+
+// Strongest bin within a frequency range
+function peakBin(spectrum: ArrayLike<number>, binWidth: number, low: number, high: number): number {
+  const start = Math.max(1, Math.floor(low / binWidth));
+  const end = Math.min(spectrum.length - 1, Math.ceil(high / binWidth));
+  let best = -1;
+  for (let i = start; i <= end; i++) {
+    if (best < 0 || spectrum[i] > spectrum[best]) {
+      best = i;
+    }
+  }
+  return best;
+}
+
+// Peak magnitude of each harmonic of f0 (0 where the harmonic is out of the spectrum)
+function harmonicAmplitudes(
+  spectrum: ArrayLike<number>,
+  binWidth: number,
+  f0: number
+): { bins: number[]; amplitudes: number[] } {
+  const tolerance = Math.pow(2, HARMONIC_TOLERANCE_CENTS / 1200);
+  const bins: number[] = [];
+  const amplitudes: number[] = [];
+
+  for (let h = 1; h <= MAX_HARMONICS; h++) {
+    // At least one bin either side, or low harmonics fall between bins
+    const low = Math.min(h * f0 / tolerance, h * f0 - binWidth);
+    const high = Math.max(h * f0 * tolerance, h * f0 + binWidth);
+    const bin = high / binWidth < spectrum.length - 1 ? peakBin(spectrum, binWidth, low, high) : -1;
+    bins.push(bin);
+    amplitudes.push(bin >= 0 ? spectrum[bin] : 0);
+  }
+  return { bins, amplitudes };
+}
+
+function salience(amplitudes: number[], f0: number): number {
+  let sum = 0;
+  for (let i = 0; i < amplitudes.length; i++) {
+    sum += amplitudes[i] * (f0 + ALPHA) / ((i + 1) * f0 + BETA);
+  }
+  return sum;
+}
+
+// Frequency of a bin refined by parabolic interpolation
+function refinePeak(spectrum: ArrayLike<number>, bin: number, binWidth: number): number {
+  if (bin <= 0 || bin >= spectrum.length - 1) {
+    return bin * binWidth;
+  }
+  const y1 = spectrum[bin - 1];
+  const y2 = spectrum[bin];
+  const y3 = spectrum[bin + 1];
+  const denominator = y1 - 2 * y2 + y3;
+  const shift = denominator !== 0 ? 0.5 * (y1 - y3) / denominator : 0;
+  return (bin + shift) * binWidth;
+}
+
+// Remove a note's harmonics from the residual spectrum. Each harmonic is taken
+// down by its smoothed amplitude (no more than its neighbours'), so a peak that
+// another note also contributes to keeps the excess. The whole search range is
+// cleared, since detuned reeds and vibrato spread a harmonic over several bins.
+function cancelHarmonics(residual: Float32Array, binWidth: number, f0: number, amplitudes: number[]): void {
+  const tolerance = Math.pow(2, HARMONIC_TOLERANCE_CENTS / 1200);
+
+  for (let i = 0; i < amplitudes.length; i++) {
+    if (amplitudes[i] <= 0) continue;
+
+    const neighbours = [amplitudes[i - 1], amplitudes[i], amplitudes[i + 1]].filter(a => a !== undefined);
+    const smoothed = Math.min(amplitudes[i], neighbours.reduce((a, b) => a + b, 0) / neighbours.length);
+    const keep = 1 - smoothed / amplitudes[i];
+
+    const harmonic = (i + 1) * f0;
+    const start = Math.max(0, Math.floor(harmonic / tolerance / binWidth) - CANCEL_BINS);
+    const end = Math.min(residual.length - 1, Math.ceil(harmonic * tolerance / binWidth) + CANCEL_BINS);
+    for (let bin = start; bin <= end; bin++) {
+      residual[bin] *= keep;
+    }
+  }
+}
+
+// Whether semitone f is the nearest one to a harmonic of f0 (the 7th harmonic
+// sits a third of a semitone flat of its note)
+function isHarmonicOf(f: number, f0: number): boolean {
+  const k = Math.round(f / f0);
+  return k >= 2 && k <= HARMONIC_NOTE_HARMONICS && Math.abs(1200 * Math.log2(f / (k * f0))) < 50;
+}
+
+// The lowest candidate with `best` as its k-th harmonic (k up to MAX_DIVISOR),
+// a fundamental peak of its own and enough salience to be a note, or null
+function lowerFundamental(
+  residual: Float32Array,
+  binWidth: number,
+  candidates: number[],
+  best: { f0: number; salience: number; bins: number[]; amplitudes: number[] },
+  taken: number[]
+): { f0: number; salience: number; bins: number[]; amplitudes: number[] } | null {
+  for (let k = MAX_DIVISOR; k >= 2; k--) {
+    const index = Math.round(12 * Math.log2(best.f0 / k / candidates[0]));
+    const f0 = candidates[index];
+    if (f0 === undefined || taken.includes(f0) ||
+        Math.abs(1200 * Math.log2(k * f0 / best.f0)) > HARMONIC_TOLERANCE_CENTS) {
+      continue;
+    }
+    const lower = harmonicAmplitudes(residual, binWidth, f0);
+    const score = salience(lower.amplitudes, f0);
+    if (lower.amplitudes[0] >= SUBHARMONIC_SUPPORT * best.amplitudes[0] &&
+        score >= NOTE_THRESHOLD * best.salience) {
+      return { f0, salience: score, ...lower };
+    }
+  }
+  return null;
+}
+
+// Estimate the notes sounding in a frame, lowest first
+export function estimatePolyphonicNotes(
+  spectrum: ArrayLike<number>,
+  sampleRate: number,
+  fftSize: number,
+  minFrequency: number,
+  maxFrequency: number,
+  referenceFrequency: number
+): PolyphonicNote[] {
+  const binWidth = sampleRate / fftSize;
+  const residual = Float32Array.from(spectrum);
+
+  // One candidate per equal-tempered semitone in range
+  const firstMidi = Math.ceil(69 + 12 * Math.log2(minFrequency / referenceFrequency));
+  const lastMidi = Math.floor(69 + 12 * Math.log2(maxFrequency / referenceFrequency));
+  const candidates: number[] = [];
+  for (let midi = firstMidi; midi <= lastMidi; midi++) {
+    candidates.push(referenceFrequency * Math.pow(2, (midi - 69) / 12));
+  }
+
+  const found: { f0: number; frequency: number; salience: number }[] = [];
+  const rejected: number[] = [];
+  let strongest = 0;
+
+  while (found.length < MAX_NOTES) {
+    let best: { f0: number; salience: number; bins: number[]; amplitudes: number[] } | null = null;
+    const taken = [...found.map(note => note.f0), ...rejected];
+
+    for (const f0 of candidates) {
+      if (taken.includes(f0)) continue;
+      const { bins, amplitudes } = harmonicAmplitudes(residual, binWidth, f0);
+      const score = salience(amplitudes, f0);
+      if (!best || score > best.salience) {
+        best = { f0, salience: score, bins, amplitudes };
+      }
+    }
+
+    if (!best || best.salience <= 0 || best.salience < NOTE_THRESHOLD * strongest) {
+      break;
+    }
+
+    // The sum favours a strong upper harmonic of a note whose fundamental is
+    // weaker. A real peak at f0 / k means the lower note; take the lowest
+    best = lowerFundamental(residual, binWidth, candidates, best, taken) ?? best;
+
+    // What is left of a found note's harmonic needs more support to count as a note
+    const pitch = best.f0;
+    const isHarmonic = found.some(note => isHarmonicOf(pitch, note.f0));
+    if (isHarmonic && best.salience < HARMONIC_NOTE_THRESHOLD * strongest) {
+      rejected.push(pitch);
+      continue;
+    }
+
+    strongest = Math.max(strongest, best.salience);
+
+    // Tune to the fundamental's peak in the original spectrum when it is there
+    const fundamentalBin = best.bins[0];
+    const frequency = fundamentalBin >= 0 && best.amplitudes[0] > 0
+      ? refinePeak(spectrum, fundamentalBin, binWidth)
+      : best.f0;
+
+    found.push({ f0: best.f0, frequency, salience: best.salience });
+    cancelHarmonics(residual, binWidth, best.f0, best.amplitudes);
+  }
+
+  // A note found early can fall below the threshold set by a stronger one found later
+  return found
+    .map(note => ({ frequency: note.frequency, salience: note.salience / strongest }))
+    .filter(note => note.salience >= NOTE_THRESHOLD)
+    .sort((a, b) => a.frequency - b.frequency);
+}
+
+// Name the chord formed by a set of note names. `bass` is the lowest sounding
+// note; returns null for a single note or a set no chord type matches
+export function nameChord(notes: string[], bass: string): ChordName | null {
+  const pitchClasses = new Set(notes.map(note => ALL_NOTES.indexOf(note)).filter(i => i >= 0));
+  const bassIndex = ALL_NOTES.indexOf(bass);
+  if (pitchClasses.size < 2 || bassIndex < 0) {
+    return null;
+  }
+
+  let best: { root: number; type: ChordType; score: number } | null = null;
+
+  for (const root of pitchClasses) {
+    for (const [order, type] of CHORD_TYPES.entries()) {
+      const chordTones = type.intervals.map(interval => (root + interval) % 12);
+      if ([...pitchClasses].some(pc => !chordTones.includes(pc))) continue;
+
+      // Every tone must sound, except the fifth of a four-note chord
+      const missing = chordTones.filter(pc => !pitchClasses.has(pc));
+      const fifthOmitted = missing.length === 1 && missing[0] === (root + 7) % 12 && chordTones.length >= 4;
+      if (missing.length > 0 && !fifthOmitted) continue;
+
+      // Complete chords first, then root position, then the list order
+      const score = (fifthOmitted ? 0 : 1000) + (root === bassIndex ? 100 : 0) - order;
+      if (!best || score > best.score) {
+        best = { root, type, score };
+      }
+    }
+  }
+
+  if (!best) {
+    return null;
+  }
+  const { root, type } = best;
+  const rootName = ALL_NOTES[root];
+
+  return {
+    name: `${rootName}${type.suffix}${root === bassIndex ? '' : `/${bass}`}`,
+    root: rootName,
+    bass,
+    quality: type.quality
+  };
+}
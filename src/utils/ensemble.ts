@@ -0,0 +1,132 @@
+// Ensemble decision: the DSP chain supplies octave and cents, the model's
+// chroma vetoes the pitch class. A DSP estimate locked onto the third harmonic
+// (or a subharmonic) lands a fifth away and is moved by the harmonic ratio; a
+// mistuned or noisy one lands a semitone away and is searched for again in
+// the spectrum, restricted to the model's class. Kept free of the model
+// runtime so the rules can be checked on their own.
+
+import { getReferenceFrequency, AnalysisFrame } from './pitchAnalyzer';
+
+// Model output classes, in order
+export const CHROMA = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// How much more probable the model must find another class before it overrides DSP
+export const VETO_MARGIN = 0.3;
+
+// Harmonic reinterpretations of the DSP frequency that change the pitch class
+const HARMONIC_RATIOS = [1 / 3, 2 / 3, 3 / 2, 3];
+
+// A semitone correction needs a spectral peak at least this strong, relative
+// to the strongest bin in the search range
+const MIN_PEAK_RATIO = 0.1;
+
+export interface EnsembleDecision {
+  action: 'agree' | 'corrected' | 'disputed' | 'rejected' | 'dsp-only';
+  dspNote: string;          // Pitch class the DSP estimate falls on
+  modelNote: string | null; // Model's most probable class
+  modelProbability: number; // Model's probability for the class that was kept
+  ratio: number;            // Factor applied to the DSP frequency
+}
+
+export interface EnsembleResult {
+  frequency: number | null; // Null when the model rejects the frame
+  probability: number;      // Model's probability for the class kept
+  decision: EnsembleDecision;
+}
+
+// The spectrum and range the decision searches in
+export type EnsembleFrame = Pick<AnalysisFrame, 'spectrum' | 'sampleRate' | 'minFrequency' | 'maxFrequency'>;
+
+export function pitchClassOf(frequency: number): number {
+  const semitones = Math.round(12 * Math.log2(frequency / getReferenceFrequency()));
+  return (((semitones + 9) % 12) + 12) % 12;
+}
+
+// Strongest spectral peak within half a semitone of `target`, refined between
+// bins, or null when there is no clear peak there
+function findPeakNear(target: number, frame: EnsembleFrame): number | null {
+  const { spectrum, sampleRate } = frame;
+  const binWidth = sampleRate / (spectrum.length * 2);
+  const low = Math.max(1, Math.ceil(target * Math.pow(2, -1 / 24) / binWidth));
+  const high = Math.min(spectrum.length - 2, Math.floor(target * Math.pow(2, 1 / 24) / binWidth));
+
+  let peak = -1;
+  for (let bin = low; bin <= high; bin++) {
+    if (peak < 0 || spectrum[bin] > spectrum[peak]) peak = bin;
+  }
+  if (peak < 0 || spectrum[peak] <= spectrum[peak - 1] || spectrum[peak] < spectrum[peak + 1]) {
+    return null;
+  }
+
+  let strongest = 0;
+  const minBin = Math.max(1, Math.floor(frame.minFrequency / binWidth));
+  const maxBin = Math.min(spectrum.length - 1, Math.ceil(frame.maxFrequency / binWidth));
+  for (let bin = minBin; bin <= maxBin; bin++) {
+    strongest = Math.max(strongest, spectrum[bin]);
+  }
+  if (spectrum[peak] < MIN_PEAK_RATIO * strongest) return null;
+
+  const y1 = spectrum[peak - 1];
+  const y2 = spectrum[peak];
+  const y3 = spectrum[peak + 1];
+  const a = (y1 + y3 - 2 * y2) / 2;
+  const shift = a < 0 ? Math.max(-0.5, Math.min(0.5, -(y3 - y1) / (4 * a))) : 0;
+  return (peak + shift) * binWidth;
+}
+
+// Combine a DSP frequency with the model's chroma probabilities (C to B)
+export function resolveEnsemble(dspFrequency: number, chroma: number[], frame: EnsembleFrame): EnsembleResult {
+  const dspClass = pitchClassOf(dspFrequency);
+  const modelClass = chroma.indexOf(Math.max(...chroma));
+  let ratio = 1;
+  let keptClass = dspClass;
+
+  // Prefer a harmonic reinterpretation the model clearly supports
+  for (const candidate of HARMONIC_RATIOS) {
+    const frequency = dspFrequency * candidate;
+    if (frequency < frame.minFrequency || frequency > frame.maxFrequency) continue;
+    const candidateClass = pitchClassOf(frequency);
+    if (chroma[candidateClass] - chroma[keptClass] > VETO_MARGIN) {
+      ratio = candidate;
+      keptClass = candidateClass;
+    }
+  }
+
+  const decide = (action: EnsembleDecision['action'], frequency: number | null): EnsembleResult => {
+    const probability = Math.max(0, Math.min(1, chroma[keptClass]));
+    return {
+      frequency,
+      probability,
+      decision: {
+        action,
+        dspNote: CHROMA[dspClass],
+        modelNote: CHROMA[modelClass],
+        modelProbability: probability,
+        ratio: frequency === null ? 1 : frequency / dspFrequency
+      }
+    };
+  };
+
+  if (modelClass === keptClass || chroma[modelClass] - chroma[keptClass] <= VETO_MARGIN) {
+    return decide(ratio !== 1 ? 'corrected' : 'agree', dspFrequency * ratio);
+  }
+
+  // A semitone away: look for the model's class next to the DSP frequency,
+  // and drop the frame when the spectrum has nothing there
+  const step = (modelClass - keptClass + 12) % 12;
+  if (step === 1 || step === 11) {
+    const target = dspFrequency * ratio * Math.pow(2, (step === 1 ? 1 : -1) / 12);
+    const frequency = target >= frame.minFrequency && target <= frame.maxFrequency
+      ? findPeakNear(target, frame)
+      : null;
+    if (frequency === null || pitchClassOf(frequency) !== modelClass) {
+      return decide('rejected', null);
+    }
+    keptClass = modelClass;
+    return decide('corrected', frequency);
+  }
+
+  // Any other disagreement can't be fixed from the spectrum, so the reading
+  // is kept but trusted less
+  return decide('disputed', dspFrequency * ratio);
+}
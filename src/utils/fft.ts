@@ -0,0 +1,176 @@
+// Radix-2 FFT and the FFT-based correlation functions used by the pitch
+// estimators. Both run in O(N log N) instead of the O(N^2) direct sums.
+// Tables and work buffers are allocated once per size and reused, so the
+// audio path doesn't allocate per frame. Work is done in double precision:
+// the YIN difference is a small value taken from large sums.
+
+interface FFTPlan {
+  size: number;
+  bitReverse: Uint32Array;
+  cos: Float64Array; // Twiddle factors for size/2 angles
+  sin: Float64Array;
+  re: Float64Array;  // Work buffers
+  im: Float64Array;
+  re2: Float64Array;
+  im2: Float64Array;
+}
+
+const PLANS: { [size: number]: FFTPlan } = {};
+
+// Reusable prefix sums of squares for the YIN energy terms
+let prefixEnergy = new Float64Array(0);
+
+// Tables and buffers for one transform size, computed once
+function getPlan(size: number): FFTPlan {
+  if (!PLANS[size]) {
+    const bits = Math.log2(size);
+    const bitReverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+      let reversed = 0;
+      for (let b = 0; b < bits; b++) {
+        reversed = (reversed << 1) | ((i >> b) & 1);
+      }
+      bitReverse[i] = reversed;
+    }
+
+    const half = size / 2;
+    const cos = new Float64Array(half);
+    const sin = new Float64Array(half);
+    for (let i = 0; i < half; i++) {
+      cos[i] = Math.cos(-2 * Math.PI * i / size);
+      sin[i] = Math.sin(-2 * Math.PI * i / size);
+    }
+
+    PLANS[size] = {
+      size,
+      bitReverse,
+      cos,
+      sin,
+      re: new Float64Array(size),
+      im: new Float64Array(size),
+      re2: new Float64Array(size),
+      im2: new Float64Array(size)
+    };
+  }
+  return PLANS[size];
+}
+
+function nextPowerOfTwo(n: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(n)));
+}
+
+// In-place complex FFT of (re, im); the inverse is scaled by 1/size
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const size = re.length;
+  const { bitReverse, cos, sin } = getPlan(size);
+
+  for (let i = 0; i < size; i++) {
+    const j = bitReverse[i];
+    if (j > i) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  const direction = inverse ? -1 : 1;
+  for (let length = 2; length <= size; length *= 2) {
+    const halfLength = length / 2;
+    const step = size / length;
+    for (let start = 0; start < size; start += length) {
+      for (let k = 0; k < halfLength; k++) {
+        const wr = cos[k * step];
+        const wi = direction * sin[k * step];
+        const a = start + k;
+        const b = a + halfLength;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < size; i++) {
+      re[i] /= size;
+      im[i] /= size;
+    }
+  }
+}
+
+// Autocorrelation r(lag) = sum x[i] * x[i + lag] for lag < out.length
+export function autocorrelation(input: Float32Array, out: Float32Array): Float32Array {
+  // Zero-pad to avoid circular wrap-around
+  const plan = getPlan(nextPowerOfTwo(input.length + out.length));
+  const { re, im } = plan;
+
+  re.fill(0);
+  im.fill(0);
+  for (let i = 0; i < input.length; i++) {
+    re[i] = input[i];
+  }
+
+  fft(re, im);
+  for (let i = 0; i < plan.size; i++) {
+    re[i] = re[i] * re[i] + im[i] * im[i]; // Power spectrum
+    im[i] = 0;
+  }
+  fft(re, im, true);
+
+  for (let lag = 0; lag < out.length; lag++) {
+    out[lag] = re[lag];
+  }
+  return out;
+}
+
+// YIN difference function d(tau) = sum over i < window of (x[i] - x[i + tau])^2,
+// for tau < out.length, where window = input.length / 2. Expanded as
+// energy(0) + energy(tau) - 2 * cross-correlation of the first half with the input
+export function yinDifference(input: Float32Array, out: Float32Array): Float32Array {
+  const window = Math.floor(input.length / 2);
+  const plan = getPlan(nextPowerOfTwo(input.length + window));
+  const { re, im, re2, im2 } = plan;
+
+  // Energy of input[tau, tau + window) from prefix sums of squares
+  if (prefixEnergy.length < input.length + 1) {
+    prefixEnergy = new Float64Array(input.length + 1);
+  }
+  prefixEnergy[0] = 0;
+  for (let i = 0; i < input.length; i++) {
+    prefixEnergy[i + 1] = prefixEnergy[i] + input[i] * input[i];
+  }
+
+  // Cross-correlation of the first half with the whole input
+  re.fill(0);
+  im.fill(0);
+  re2.fill(0);
+  im2.fill(0);
+  for (let i = 0; i < input.length; i++) {
+    re[i] = input[i];
+  }
+  for (let i = 0; i < window; i++) {
+    re2[i] = input[i];
+  }
+
+  fft(re, im);
+  fft(re2, im2);
+  for (let i = 0; i < plan.size; i++) {
+    // X * conj(A)
+    const r = re[i] * re2[i] + im[i] * im2[i];
+    const j = im[i] * re2[i] - re[i] * im2[i];
+    re[i] = r;
+    im[i] = j;
+  }
+  fft(re, im, true);
+
+  const firstEnergy = prefixEnergy[window];
+  const maxTau = Math.min(out.length, input.length - window + 1);
+  for (let tau = 0; tau < maxTau; tau++) {
+    const shiftedEnergy = prefixEnergy[tau + window] - prefixEnergy[tau];
+    // Rounding can leave tiny negatives where the true value is zero
+    out[tau] = Math.max(0, firstEnergy + shiftedEnergy - 2 * re[tau]);
+  }
+  return out;
+}
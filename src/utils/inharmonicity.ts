@@ -0,0 +1,186 @@
+// Piano string inharmonicity and stretch tuning.
+// A stiff string's partials sit above the harmonic series:
+//   f_n = n * f0 * sqrt(1 + B * n^2)
+// where B is the inharmonicity coefficient of that string.
+
+export interface InharmonicityMeasurement {
+  coefficient: number;  // Inharmonicity coefficient B
+  fundamental: number;  // Frequency of the first partial (Hz)
+  partials: number;     // Number of partials used in the fit
+}
+
+// Inharmonicity measurements keyed by MIDI note number
+export type InharmonicityProfile = { [midi: number]: number };
+
+// Piano keyboard range (A0 to C8) as MIDI note numbers
+export const LOWEST_PIANO_KEY = 21;
+export const HIGHEST_PIANO_KEY = 108;
+
+// Stretch curves are anchored on A4
+const ANCHOR_KEY = 69;
+
+// Fitting settings
+const MAX_PARTIALS = 16;
+const MIN_PARTIALS = 3;
+const SEARCH_WIDTH = 0.2;   // Search +/- this fraction of f0 around each predicted partial
+const PEAK_RATIO = 0.02;    // Ignore peaks quieter than this fraction of the strongest partial
+const MAX_COEFFICIENT = 0.05;
+
+// Locate the strongest bin in a range and refine it with parabolic interpolation
+function findPeak(spectrum: ArrayLike<number>, from: number, to: number): { bin: number; magnitude: number } | null {
+  const start = Math.max(1, Math.floor(from));
+  const end = Math.min(spectrum.length - 2, Math.ceil(to));
+  if (end <= start) return null;
+
+  let peakBin = start;
+  for (let i = start + 1; i <= end; i++) {
+    if (spectrum[i] > spectrum[peakBin]) {
+      peakBin = i;
+    }
+  }
+
+  // A peak on the edge of the range belongs to a neighbouring partial
+  if (peakBin === start || peakBin === end) return null;
+
+  const y1 = spectrum[peakBin - 1];
+  const y2 = spectrum[peakBin];
+  const y3 = spectrum[peakBin + 1];
+  const denominator = y1 - 2 * y2 + y3;
+  const shift = denominator !== 0 ? 0.5 * (y1 - y3) / denominator : 0;
+
+  return { bin: peakBin + shift, magnitude: y2 };
+}
+
+// Least-squares fit of (f_n / n)^2 = f0^2 + f0^2 * B * n^2
+function fitCoefficient(points: { n: number; frequency: number }[]): { f0: number; coefficient: number } | null {
+  if (points.length < 2) return null;
+
+  let sumX = 0, sumY = 0, sumXX = 0, sumXY = 0;
+  for (const { n, frequency } of points) {
+    const x = n * n;
+    const y = (frequency / n) * (frequency / n);
+    sumX += x;
+    sumY += y;
+    sumXX += x * x;
+    sumXY += x * y;
+  }
+
+  const count = points.length;
+  const denominator = count * sumXX - sumX * sumX;
+  if (denominator === 0) return null;
+
+  const slope = (count * sumXY - sumX * sumY) / denominator;
+  const intercept = (sumY - slope * sumX) / count;
+  if (intercept <= 0) return null;
+
+  return { f0: Math.sqrt(intercept), coefficient: slope / intercept };
+}
+
+// Measure B from an amplitude spectrum, given the detected first partial
+export function estimateInharmonicity(
+  spectrum: ArrayLike<number>,
+  sampleRate: number,
+  fftSize: number,
+  fundamental: number
+): InharmonicityMeasurement | null {
+  if (!fundamental || fundamental <= 0 || spectrum.length === 0) {
+    return null;
+  }
+
+  const hzPerBin = sampleRate / fftSize;
+  const nyquist = sampleRate / 2;
+  const points: { n: number; frequency: number; magnitude: number }[] = [];
+
+  let f0 = fundamental;
+  let coefficient = 0;
+
+  for (let n = 1; n <= MAX_PARTIALS; n++) {
+    // Predict where this partial should be from the fit so far
+    const predicted = n * f0 * Math.sqrt(1 + coefficient * n * n);
+    if (predicted + SEARCH_WIDTH * f0 >= nyquist) break;
+
+    const peak = findPeak(
+      spectrum,
+      (predicted - SEARCH_WIDTH * f0) / hzPerBin,
+      (predicted + SEARCH_WIDTH * f0) / hzPerBin
+    );
+    if (!peak) continue;
+
+    points.push({ n, frequency: peak.bin * hzPerBin, magnitude: peak.magnitude });
+
+    // Refine the prediction as partials accumulate
+    const fit = fitCoefficient(points);
+    if (fit && fit.coefficient >= 0 && fit.coefficient < MAX_COEFFICIENT) {
+      f0 = fit.f0;
+      coefficient = fit.coefficient;
+    }
+  }
+
+  // Drop weak peaks which are most likely noise, then fit again
+  const strongest = points.reduce((max, p) => Math.max(max, p.magnitude), 0);
+  const usable = points.filter(p => p.magnitude >= strongest * PEAK_RATIO);
+  if (usable.length < MIN_PARTIALS) {
+    return null;
+  }
+
+  const fit = fitCoefficient(usable);
+  if (!fit || fit.coefficient < 0 || fit.coefficient >= MAX_COEFFICIENT) {
+    return null;
+  }
+
+  return {
+    coefficient: fit.coefficient,
+    fundamental: fit.f0 * Math.sqrt(1 + fit.coefficient),
+    partials: usable.length
+  };
+}
+
+// Interpolate B for every key (log-linear between measured keys, flat beyond them)
+function interpolateCoefficients(profile: InharmonicityProfile): number[] | null {
+  const keys = Object.keys(profile)
+    .map(Number)
+    .filter(key => profile[key] > 0)
+    .sort((a, b) => a - b);
+  if (keys.length === 0) return null;
+
+  const coefficients: number[] = [];
+  for (let key = LOWEST_PIANO_KEY; key <= HIGHEST_PIANO_KEY; key++) {
+    if (key <= keys[0]) {
+      coefficients[key] = profile[keys[0]];
+    } else if (key >= keys[keys.length - 1]) {
+      coefficients[key] = profile[keys[keys.length - 1]];
+    } else {
+      const upper = keys.findIndex(k => k >= key);
+      const lo = keys[upper - 1];
+      const hi = keys[upper];
+      const t = (key - lo) / (hi - lo);
+      coefficients[key] = Math.exp(
+        Math.log(profile[lo]) * (1 - t) + Math.log(profile[hi]) * t
+      );
+    }
+  }
+  return coefficients;
+}
+
+// Octave stretch (cents) when the upper note is tuned to the lower note's second partial
+function octaveStretch(coefficient: number): number {
+  return 600 * Math.log2((1 + 4 * coefficient) / (1 + coefficient));
+}
+
+// Build a stretch curve: cents from equal temperament for every key, with A4 at 0.
+// Each semitone step carries a twelfth of the octave stretch implied by the lower key.
+export function buildStretchCurve(profile: InharmonicityProfile): { [midi: number]: number } | null {
+  const coefficients = interpolateCoefficients(profile);
+  if (!coefficients) return null;
+
+  const curve: { [midi: number]: number } = { [ANCHOR_KEY]: 0 };
+
+  for (let key = ANCHOR_KEY + 1; key <= HIGHEST_PIANO_KEY; key++) {
+    curve[key] = curve[key - 1] + octaveStretch(coefficients[key - 1]) / 12;
+  }
+  for (let key = ANCHOR_KEY - 1; key >= LOWEST_PIANO_KEY; key--) {
+    curve[key] = curve[key + 1] - octaveStretch(coefficients[key]) / 12;
+  }
+
+  return curve;
+}
@@ -0,0 +1,57 @@
+// Instrument range presets that bound the pitch detector's search range.
+// Limits leave roughly a semitone of headroom around each instrument's
+// written range (checked against the notes in TinySOL_metadata.csv).
+
+export interface InstrumentRange {
+  id: string;
+  name: string;
+  minFrequency: number; // Hz
+  maxFrequency: number; // Hz
+  instruments: string[]; // TinySOL instrument abbreviations it suits
+}
+
+export const DEFAULT_RANGE_ID = 'general';
+export const CUSTOM_RANGE_ID = 'custom';
+
+// Hard limits for custom ranges
+export const LOWEST_FREQUENCY = 20;
+export const HIGHEST_FREQUENCY = 5000;
+
+export const INSTRUMENT_RANGES: InstrumentRange[] = [
+  { id: DEFAULT_RANGE_ID, name: 'General', minFrequency: 80, maxFrequency: 1500, instruments: [] },
+  { id: 'tuba', name: 'Tuba', minFrequency: 30, maxFrequency: 400, instruments: ['BTb'] },
+  { id: 'bass', name: 'Double Bass', minFrequency: 38, maxFrequency: 560, instruments: ['Cb'] },
+  { id: 'cello', name: 'Cello', minFrequency: 60, maxFrequency: 1100, instruments: ['Vc'] },
+  { id: 'voice', name: 'Voice', minFrequency: 75, maxFrequency: 1100, instruments: [] },
+  { id: 'violin', name: 'Violin', minFrequency: 185, maxFrequency: 2800, instruments: ['Vn'] },
+  { id: 'flute', name: 'Flute', minFrequency: 240, maxFrequency: 2500, instruments: ['Fl'] },
+  { id: 'piccolo', name: 'Piccolo', minFrequency: 550, maxFrequency: 4400, instruments: [] },
+  { id: 'accordion', name: 'Accordion', minFrequency: 38, maxFrequency: 4500, instruments: ['Acc'] },
+  { id: 'piano', name: 'Piano', minFrequency: 26, maxFrequency: 4300, instruments: [] }
+];
+
+// Widest preset, for instruments without a dedicated one
+export const WIDEST_RANGE_ID = 'piano';
+
+// Find a preset by id, falling back to the general range
+export function getInstrumentRange(id: string): InstrumentRange {
+  return INSTRUMENT_RANGES.find(r => r.id === id) ?? INSTRUMENT_RANGES[0];
+}
+
+// Preset for a TinySOL instrument abbreviation, or the widest preset
+export function getRangeForInstrument(abbreviation: string): InstrumentRange {
+  return INSTRUMENT_RANGES.find(r => r.instruments.includes(abbreviation)) ??
+    getInstrumentRange(WIDEST_RANGE_ID);
+}
+
+// Clamp a custom range to the hard limits, keeping at least an octave between the ends
+export function normalizeCustomRange(minFrequency: number, maxFrequency: number): { minFrequency: number; maxFrequency: number } {
+  const fallback = INSTRUMENT_RANGES[0];
+  let min = Number.isFinite(minFrequency) ? minFrequency : fallback.minFrequency;
+  let max = Number.isFinite(maxFrequency) ? maxFrequency : fallback.maxFrequency;
+
+  min = Math.round(Math.min(HIGHEST_FREQUENCY / 2, Math.max(LOWEST_FREQUENCY, min)));
+  max = Math.round(Math.min(HIGHEST_FREQUENCY, Math.max(min * 2, max)));
+
+  return { minFrequency: min, maxFrequency: max };
+}
@@ -0,0 +1,154 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Sing-back interval exercises: the app plays a reference note and the player
+// answers with a named interval above or below it. Intervals are measured in
+// fractional semitones between the two pitches, octaves included, so a major
+// tenth is never mistaken for a major third.
+
+export interface Interval {
+  id: string;
+  name: string;
+  short: string;
+  semitones: number;
+}
+
+export type IntervalDirection = 'up' | 'down';
+
+export interface IntervalQuestion {
+  interval: Interval;
+  direction: IntervalDirection;
+  reference: number; // Note number of the reference (written pitch)
+  target: number;    // Note number the answer should be
+}
+
+export interface IntervalGrade {
+  sung: number;      // Fractional note number of the answer
+  semitones: number; // Signed interval actually sung
+  error: number;     // Cents from the target
+  correct: boolean;  // Right note, within ANSWER_TOLERANCE_CENTS
+  heard: Interval | null; // Interval matching what was sung, if any
+}
+
+export interface IntervalTally {
+  attempts: number;
+  correct: number;
+  totalError: number; // Sum of |cents| from the target, for the average
+}
+
+export type IntervalTallies = Record<string, IntervalTally>;
+
+export const INTERVALS: Interval[] = [
+  { id: 'm2', name: 'minor second', short: 'm2', semitones: 1 },
+  { id: 'M2', name: 'major second', short: 'M2', semitones: 2 },
+  { id: 'm3', name: 'minor third', short: 'm3', semitones: 3 },
+  { id: 'M3', name: 'major third', short: 'M3', semitones: 4 },
+  { id: 'P4', name: 'perfect fourth', short: 'P4', semitones: 5 },
+  { id: 'TT', name: 'tritone', short: 'TT', semitones: 6 },
+  { id: 'P5', name: 'perfect fifth', short: 'P5', semitones: 7 },
+  { id: 'm6', name: 'minor sixth', short: 'm6', semitones: 8 },
+  { id: 'M6', name: 'major sixth', short: 'M6', semitones: 9 },
+  { id: 'm7', name: 'minor seventh', short: 'm7', semitones: 10 },
+  { id: 'M7', name: 'major seventh', short: 'M7', semitones: 11 },
+  { id: 'P8', name: 'octave', short: 'P8', semitones: 12 }
+];
+
+// An answer on the right note counts when within this (cents)
+export const ANSWER_TOLERANCE_CENTS = 50;
+
+// Reference notes are drawn from here, so answers stay within a singable range
+// (C3 to C5 as note numbers)
+const LOWEST_REFERENCE = 48;
+const HIGHEST_REFERENCE = 72;
+
+// Weak intervals are asked up to this many times as often as mastered ones
+const MAX_DRILL_WEIGHT = 4;
+
+const STORAGE_KEY = 'intervalTallies';
+
+const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export const toNoteNumber = (note: string, octave: number) => 12 * (octave + 1) + ALL_NOTES.indexOf(note);
+
+export function fromNoteNumber(number: number): { note: string; octave: number } {
+  const rounded = Math.round(number);
+  return { note: ALL_NOTES[((rounded % 12) + 12) % 12], octave: Math.floor(rounded / 12) - 1 };
+}
+
+export const formatNoteNumber = (number: number) => {
+  const { note, octave } = fromNoteNumber(number);
+  return `${note}${octave}`;
+};
+
+// Share of answers still missed, with untried intervals counting as weak
+function drillWeight(tally: IntervalTally | undefined): number {
+  if (!tally || !tally.attempts) return MAX_DRILL_WEIGHT;
+  return 1 + (MAX_DRILL_WEIGHT - 1) * (1 - tally.correct / tally.attempts);
+}
+
+// Pick the next question. With `drill`, intervals answered badly come up more
+// often; `reference` fixes the reference note instead of choosing one
+export function createQuestion(
+  intervals: Interval[],
+  directions: IntervalDirection[],
+  tallies: IntervalTallies,
+  drill: boolean,
+  reference?: number
+): IntervalQuestion {
+  const weights = intervals.map(interval => (drill ? drillWeight(tallies[interval.id]) : 1));
+  let pick = Math.random() * weights.reduce((sum, w) => sum + w, 0);
+  let index = 0;
+  while (index < intervals.length - 1 && pick >= weights[index]) {
+    pick -= weights[index];
+    index++;
+  }
+
+  const interval = intervals[index];
+  const direction = directions[Math.floor(Math.random() * directions.length)];
+  const offset = direction === 'up' ? interval.semitones : -interval.semitones;
+
+  // Keep the answer inside the reference range as well
+  let start = reference;
+  if (start === undefined) {
+    const low = Math.max(LOWEST_REFERENCE, LOWEST_REFERENCE - offset);
+    const high = Math.min(HIGHEST_REFERENCE, HIGHEST_REFERENCE - offset);
+    start = low + Math.floor(Math.random() * (high - low + 1));
+  }
+
+  return { interval, direction, reference: start, target: start + offset };
+}
+
+// Grade an answer given as a fractional note number
+export function gradeAnswer(question: IntervalQuestion, sung: number): IntervalGrade {
+  const semitones = sung - question.reference;
+  const error = 100 * (sung - question.target);
+  const heardSize = Math.round(Math.abs(semitones));
+  return {
+    sung,
+    semitones,
+    error,
+    correct: Math.abs(error) <= ANSWER_TOLERANCE_CENTS,
+    heard: INTERVALS.find(interval => interval.semitones === heardSize) ?? null
+  };
+}
+
+export function addToTallies(tallies: IntervalTallies, question: IntervalQuestion, grade: IntervalGrade): IntervalTallies {
+  const tally = tallies[question.interval.id] ?? { attempts: 0, correct: 0, totalError: 0 };
+  return {
+    ...tallies,
+    [question.interval.id]: {
+      attempts: tally.attempts + 1,
+      correct: tally.correct + (grade.correct ? 1 : 0),
+      totalError: tally.totalError + Math.abs(grade.error)
+    }
+  };
+}
+
+export async function loadTallies(): Promise<IntervalTallies> {
+  const json = await AsyncStorage.getItem(STORAGE_KEY);
+  const parsed = json ? JSON.parse(json) : {};
+  return parsed && typeof parsed === 'object' ? parsed : {};
+}
+
+export async function saveTallies(tallies: IntervalTallies): Promise<void> {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(tallies));
+}
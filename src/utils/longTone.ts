@@ -0,0 +1,101 @@
+// Long-tone exercise: hold one note inside a tolerance window for a set time.
+// Fed with the tuner's smoothed readings, it measures how long the pitch stayed
+// in the window and how far it wandered.
+
+export interface LongToneOptions {
+  toleranceCents: number;  // Half-width of the window
+  durationSeconds: number;
+}
+
+export interface LongToneProgress {
+  elapsed: number;          // Seconds since the start
+  inTune: number;           // Seconds inside the window so far
+  deviation: number | null; // Latest deviation from the target (cents), null when no stable note
+  inWindow: boolean;
+  done: boolean;
+}
+
+export interface LongToneScore {
+  duration: number;      // Seconds actually practised
+  timeInTune: number;    // Seconds inside the window
+  inTunePercent: number;
+  meanDeviation: number | null; // Signed average while a note was held (cents)
+  maxDrift: number | null;      // Largest deviation either way (cents)
+}
+
+export interface LongToneExercise {
+  add(deviation: number | null, time?: number): void;
+  getProgress(time?: number): LongToneProgress;
+  getScore(time?: number): LongToneScore; // Stopping early scores the time so far
+}
+
+export const TOLERANCE_OPTIONS = [3, 5, 10, 20];
+export const DURATION_OPTIONS = [5, 10, 20, 30];
+
+// A reading counts until the next one, but no longer than this, so a
+// silence isn't scored as held (ms)
+const MAX_READING_GAP_MS = 250;
+
+export function createLongToneExercise(options: LongToneOptions, startTime = Date.now()): LongToneExercise {
+  const endTime = startTime + options.durationSeconds * 1000;
+
+  let last: { time: number; deviation: number | null } | null = null;
+  let inTuneMs = 0;
+  let heldMs = 0;
+  let weightedDeviation = 0;
+  let maxDrift: number | null = null;
+
+  const inWindow = (deviation: number | null) =>
+    deviation !== null && Math.abs(deviation) <= options.toleranceCents;
+
+  // Credit the previous reading with the time until `time`
+  const advance = (time: number) => {
+    if (!last) return;
+    const span = Math.min(time, endTime, last.time + MAX_READING_GAP_MS) - last.time;
+    if (span <= 0 || last.deviation === null) return;
+    heldMs += span;
+    weightedDeviation += span * last.deviation;
+    if (inWindow(last.deviation)) inTuneMs += span;
+  };
+
+  return {
+    add(deviation, time = Date.now()) {
+      if (time < startTime || time >= endTime) return;
+      advance(time);
+      last = { time, deviation };
+      if (deviation !== null && (maxDrift === null || Math.abs(deviation) > Math.abs(maxDrift))) {
+        maxDrift = deviation;
+      }
+    },
+
+    getProgress(time = Date.now()) {
+      const elapsed = Math.min(time, endTime) - startTime;
+      // Count the current reading up to now without committing it
+      const pending = last && last.deviation !== null && inWindow(last.deviation)
+        ? Math.max(0, Math.min(time, endTime, last.time + MAX_READING_GAP_MS) - last.time)
+        : 0;
+      const current = last && time - last.time <= MAX_READING_GAP_MS ? last.deviation : null;
+      return {
+        elapsed: elapsed / 1000,
+        inTune: (inTuneMs + pending) / 1000,
+        deviation: current,
+        inWindow: inWindow(current),
+        done: time >= endTime
+      };
+    },
+
+    getScore(time = Date.now()) {
+      const stoppedAt = Math.min(time, endTime);
+      advance(stoppedAt);
+      last = null;
+      const elapsed = stoppedAt - startTime;
+      return {
+        duration: elapsed / 1000,
+        timeInTune: inTuneMs / 1000,
+        inTunePercent: elapsed > 0 ? 100 * inTuneMs / elapsed : 0,
+        meanDeviation: heldMs ? weightedDeviation / heldMs : null,
+        maxDrift
+      };
+    }
+  };
+}
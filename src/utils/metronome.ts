@@ -0,0 +1,128 @@
+// Metronome rendered one bar at a time. Every click of the bar is placed at
+// its exact sample in a WAV file, which expo-av then loops, so the clicks
+// within a bar don't depend on the JS thread. expo-av's looping isn't
+// gapless, though: the player may leave a short gap at the seam between
+// bars, so bars can come slightly late.
+
+import { Audio } from 'expo-av';
+import { cacheWav, SAMPLE_RATE } from './toneGenerator';
+
+// Clicks per beat
+export type Subdivision = 1 | 2 | 3 | 4;
+
+export interface MetronomeSettings {
+  bpm: number;
+  beatsPerBar: number;
+  subdivision: Subdivision;
+  accent: boolean; // Mark the first beat of the bar
+}
+
+interface Click {
+  frequency: number;
+  level: number; // 0-1
+}
+
+export const SUBDIVISIONS: { id: Subdivision; name: string }[] = [
+  { id: 1, name: 'Beats' },
+  { id: 2, name: 'Eighths' },
+  { id: 3, name: 'Triplets' },
+  { id: 4, name: 'Sixteenths' }
+];
+
+export const MIN_BPM = 20;
+export const MAX_BPM = 300;
+export const MAX_BEATS_PER_BAR = 12;
+
+const ACCENT_CLICK: Click = { frequency: 1760, level: 0.9 };
+const BEAT_CLICK: Click = { frequency: 1320, level: 0.7 };
+const SUBDIVISION_CLICK: Click = { frequency: 880, level: 0.35 };
+
+// Each click is a short sine burst dying away at this rate (per second)
+const CLICK_SECONDS = 0.03;
+const CLICK_DECAY = 150;
+
+// How often the player reports its position for the beat indicator (ms).
+// The indicator can trail the click by up to this much
+const POSITION_UPDATE_MS = 20;
+
+let currentMetronome: Audio.Sound | null = null;
+
+// Bumped by every start and stop, so a start that finishes loading after a
+// later call doesn't keep ticking
+let metronomeGeneration = 0;
+
+export const clampBpm = (bpm: number) => Math.min(MAX_BPM, Math.max(MIN_BPM, Math.round(bpm)));
+
+// Length of one beat (ms), for following the playback position
+export const getBeatMs = (bpm: number) => 60000 / bpm;
+
+function addClick(samples: Float32Array, start: number, click: Click) {
+  const length = Math.min(Math.round(CLICK_SECONDS * SAMPLE_RATE), samples.length - start);
+  const step = 2 * Math.PI * click.frequency / SAMPLE_RATE;
+  for (let i = 0; i < length; i++) {
+    samples[start + i] += click.level * Math.exp(-CLICK_DECAY * i / SAMPLE_RATE) * Math.sin(step * i);
+  }
+}
+
+// One bar of clicks. Click positions are rounded to the nearest sample from
+// the start of the bar, so rounding never accumulates
+export function renderBar(settings: MetronomeSettings): Float32Array {
+  const beatSamples = SAMPLE_RATE * 60 / settings.bpm;
+  const samples = new Float32Array(Math.round(beatSamples * settings.beatsPerBar));
+
+  for (let beat = 0; beat < settings.beatsPerBar; beat++) {
+    for (let sub = 0; sub < settings.subdivision; sub++) {
+      const click = sub > 0
+        ? SUBDIVISION_CLICK
+        : beat === 0 && settings.accent ? ACCENT_CLICK : BEAT_CLICK;
+      addClick(samples, Math.round((beat + sub / settings.subdivision) * beatSamples), click);
+    }
+  }
+  return samples;
+}
+
+export async function stopMetronome(): Promise<void> {
+  metronomeGeneration++;
+  const sound = currentMetronome;
+  currentMetronome = null;
+  if (sound) {
+    await sound.unloadAsync().catch(() => {});
+  }
+}
+
+// Loop the bar until stopMetronome, replacing any metronome already running.
+// `onBeat` is called with the beat of the bar (from 0) as playback reaches it
+export async function startMetronome(
+  settings: MetronomeSettings,
+  onBeat?: (beat: number) => void
+): Promise<void> {
+  const generation = ++metronomeGeneration;
+  const uri = await cacheWav(
+    `metronome-${settings.bpm}-${settings.beatsPerBar}-${settings.subdivision}${settings.accent ? '-accent' : ''}`,
+    () => renderBar(settings)
+  );
+  if (generation !== metronomeGeneration) return;
+
+  await currentMetronome?.unloadAsync().catch(() => {});
+  currentMetronome = null;
+
+  const beatMs = getBeatMs(settings.bpm);
+  let lastBeat = -1;
+  const { sound } = await Audio.Sound.createAsync(
+    { uri },
+    { shouldPlay: true, isLooping: true, progressUpdateIntervalMillis: POSITION_UPDATE_MS },
+    status => {
+      if (!status.isLoaded || !onBeat) return;
+      const beat = Math.floor(status.positionMillis / beatMs) % settings.beatsPerBar;
+      if (beat !== lastBeat) {
+        lastBeat = beat;
+        onBeat(beat);
+      }
+    }
+  );
+  if (generation !== metronomeGeneration) {
+    await sound.unloadAsync().catch(() => {});
+    return;
+  }
+  currentMetronome = sound;
+}
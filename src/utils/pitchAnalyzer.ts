@@ -1,4 +1,8 @@
 import Meyda from 'meyda';
+import { getTemperamentOffsets } from './temperaments';
+import { estimateInharmonicity, InharmonicityMeasurement } from './inharmonicity';
+import { autocorrelation, yinDifference } from './fft';
+import { estimatePolyphonicNotes, nameChord, ChordName } from './chords';
 
 // Define the pitch detection result type
 export interface NotePitch {
@@ -6,41 +10,105 @@ export interface NotePitch {
   octave: number;    // Octave number (e.g., 4 for A4)
   frequency: number; // Detected frequency in Hz
   cents: number;     // Detune in cents (-50 to +50)
+  confidence: number; // How much to trust the reading, 0 (guess) to 1 (clear)
+  source: string;     // Id of the estimator that produced it
 }
 
-// Note frequencies (A4 = 440Hz standard tuning)
-const NOTE_FREQUENCIES: { [note: string]: number } = {
-  'C': 261.63,
-  'C#': 277.18,
-  'D': 293.66,
-  'D#': 311.13,
-  'E': 329.63,
-  'F': 349.23,
-  'F#': 369.99,
-  'G': 392.00,
-  'G#': 415.30,
-  'A': 440.00,
-  'A#': 466.16,
-  'B': 493.88
-};
+// One analysis window, as every pitch estimator sees it
+export interface AnalysisFrame {
+  samples: Float32Array;    // Window in [-1, 1]; estimators must not modify it
+  pcm: Int16Array;          // The same window as 16-bit PCM
+  sampleRate: number;
+  spectrum: Float32Array;   // Meyda amplitude spectrum of the window
+  spectralCentroid: number; // Hz
+  spectralFlatness: number; // 0 (tonal) to 1 (noise)
+  minFrequency: number;     // Detector search range (Hz)
+  maxFrequency: number;
+}
+
+// A fundamental frequency and how clearly the estimator found it
+export interface PitchEstimate {
+  frequency: number;  // Hz
+  confidence: number; // 0 to 1
+  source: string;     // Estimator id
+}
+
+// A pitch estimation method. Returns null when it finds no pitch
+export interface PitchEstimator {
+  id: string;
+  name: string;
+  estimate(frame: AnalysisFrame): PitchEstimate | null | Promise<PitchEstimate | null>;
+  reset?(): void; // Forget anything carried over from earlier frames
+}
+
+// The notes sounding together in one frame, and the chord they form
+export interface ChordReading {
+  notes: NotePitch[];       // Lowest first; confidence is each note's salience
+  chord: ChordName | null;  // Null for a single note or an unnamed set
+}
+
+// Concert pitch (A4 reference) limits in Hz
+export const MIN_REFERENCE_FREQUENCY = 400;
+export const MAX_REFERENCE_FREQUENCY = 480;
+export const DEFAULT_REFERENCE_FREQUENCY = 440;
 
 // All notes in chromatic scale
 const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
 
+// Equal temperament: no offsets for any pitch class
+const NO_OFFSETS = new Array(12).fill(0);
+
+// Build the octave-4 note table for a given A4 reference and temperament
+// offsets (cents from equal temperament, indexed by pitch class)
+function buildNoteFrequencies(
+  referenceFrequency: number,
+  offsets: number[] = NO_OFFSETS
+): { [note: string]: number } {
+  const frequencies: { [note: string]: number } = {};
+  ALL_NOTES.forEach((note, i) => {
+    // A is index 9, so every other note is (i - 9) semitones away from A4
+    const semitones = (i - 9) + (offsets[i] ?? 0) / 100;
+    frequencies[note] = referenceFrequency * Math.pow(2, semitones / 12);
+  });
+  return frequencies;
+}
+
 // Audio processing settings
 const SETTINGS = {
   minFrequency: 80,   // Lowest detectable frequency (Hz)
   maxFrequency: 1500, // Highest detectable frequency (Hz)
   bufferSize: 2048,   // FFT size for frequency analysis (MUST be power of 2)
-  sampleRate: 16000,  // Expected sample rate
+  minWindowSize: 1024, // Shortest adaptive analysis window (samples, power of 2)
+  maxWindowSize: 8192, // Longest adaptive analysis window (samples, power of 2)
+  periodsPerWindow: 8, // Periods of the current note each window should hold
+  sampleRate: 16000,  // Default sample rate when the caller doesn't give one
   noiseFloor: -45,    // dB threshold to consider a peak (lowered for better sensitivity)
   peakThreshold: 0.45, // Reduced threshold for better detection
+  referenceFrequency: DEFAULT_REFERENCE_FREQUENCY, // Concert pitch for A4 (Hz)
+  temperamentOffsets: NO_OFFSETS,    // Cents from ET per pitch class (C = 0)
+  stretchOffsets: null as { [midi: number]: number } | null, // Piano stretch curve (cents by MIDI note)
+  octaveCorrection: true, // Check estimates for octave errors against the spectrum and over time
+  octaveJumpFrames: 3,    // Frames an octave leap must persist before it is believed
 };
 
+// Octave-4 note frequencies for the current concert pitch and temperament
+let NOTE_FREQUENCIES = buildNoteFrequencies(SETTINGS.referenceFrequency);
+
+// Amplitude spectrum of the last analyzed frame (kept for inharmonicity measurement)
+let lastSpectrum: { spectrum: Float32Array; sampleRate: number; fftSize: number } | null = null;
+
+// Last detected frequency, used to size the next analysis window
+let lastEstimate: number | null = null;
+
+// Consecutive frames that have leapt an octave away from the tracked note
+let octaveJumpCount = 0;
+
 // Pre-allocated buffers for better performance
 let floatBuffer: Float32Array;
 let powerOfTwoBuffer: Float32Array;
-let hannWindow: Float32Array;
+let windowedBuffer: Float32Array;
+let correlationBuffer: Float32Array;
+const hannWindows: { [size: number]: Float32Array } = {};
 
 // Check if a number is a power of 2
 function isPowerOfTwo(n: number): boolean {
@@ -52,20 +120,135 @@ function nextPowerOfTwo(n: number): number {
   return Math.pow(2, Math.ceil(Math.log2(n)));
 }
 
+// Get the largest power of 2 that fits in n
+function previousPowerOfTwo(n: number): number {
+  return Math.pow(2, Math.floor(Math.log2(n)));
+}
+
+// Hann window of a given length, computed once per size
+function getHannWindow(size: number): Float32Array {
+  if (!hannWindows[size]) {
+    const window = new Float32Array(size);
+    for (let i = 0; i < size; i++) {
+      window[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / (size - 1)));
+    }
+    hannWindows[size] = window;
+  }
+  return hannWindows[size];
+}
+
+// Analysis window length (samples) for the next frame. Low notes get a longer
+// window so YIN sees enough periods; high notes a shorter one for lower latency.
+export function getAnalysisWindowSize(sampleRate: number = SETTINGS.sampleRate): number {
+  // The longest period in range must fit in half the window (YIN's lag search)
+  const rangeWindow = nextPowerOfTwo(2 * (sampleRate / SETTINGS.minFrequency + 2));
+  
+  // Without a current estimate, size for the lowest note in range
+  const frequency = lastEstimate ?? SETTINGS.minFrequency;
+  const periodsWindow = nextPowerOfTwo(SETTINGS.periodsPerWindow * sampleRate / frequency);
+  
+  return Math.min(
+    SETTINGS.maxWindowSize,
+    Math.max(SETTINGS.minWindowSize, rangeWindow, periodsWindow)
+  );
+}
+
+// Clamp a concert pitch to the supported range in 0.1 Hz steps
+export function normalizeReferenceFrequency(frequency: number): number {
+  if (!Number.isFinite(frequency)) {
+    return DEFAULT_REFERENCE_FREQUENCY;
+  }
+  const clamped = Math.min(MAX_REFERENCE_FREQUENCY, Math.max(MIN_REFERENCE_FREQUENCY, frequency));
+  return Math.round(clamped * 10) / 10;
+}
+
+// Set the concert pitch (A4) used for note naming, cents and octaves
+export function setReferenceFrequency(frequency: number): void {
+  SETTINGS.referenceFrequency = normalizeReferenceFrequency(frequency);
+  NOTE_FREQUENCIES = buildNoteFrequencies(SETTINGS.referenceFrequency, SETTINGS.temperamentOffsets);
+}
+
+// Current concert pitch (A4) in Hz
+export function getReferenceFrequency(): number {
+  return SETTINGS.referenceFrequency;
+}
+
+// Set the temperament (and its tonic) that cents are measured against
+export function setTemperament(id: string, tonic: string, customDeviations?: number[]): void {
+  SETTINGS.temperamentOffsets = getTemperamentOffsets(id, ALL_NOTES.includes(tonic) ? tonic : 'C', customDeviations);
+  NOTE_FREQUENCIES = buildNoteFrequencies(SETTINGS.referenceFrequency, SETTINGS.temperamentOffsets);
+}
+
+// Set the frequency range the detectors search (instrument range preset)
+export function setFrequencyRange(minFrequency: number, maxFrequency: number): void {
+  if (!(minFrequency > 0) || !(maxFrequency > minFrequency)) {
+    console.warn('Ignoring invalid frequency range:', minFrequency, maxFrequency);
+    return;
+  }
+  // Kept as asked; each frame caps it at its own Nyquist frequency
+  SETTINGS.minFrequency = minFrequency;
+  SETTINGS.maxFrequency = maxFrequency;
+}
+
+// Highest frequency to search in audio at a sample rate: the range's top,
+// but below that rate's Nyquist frequency
+function getMaxFrequency(sampleRate: number): number {
+  return Math.min(SETTINGS.maxFrequency, sampleRate / 2);
+}
+
+// Set the piano stretch curve (cents from ET by MIDI note), or null for none
+export function setStretchOffsets(offsets: { [midi: number]: number } | null): void {
+  SETTINGS.stretchOffsets = offsets;
+}
+
+// Stretch offset in cents for a MIDI note
+function getStretchOffset(midi: number): number {
+  return SETTINGS.stretchOffsets?.[midi] ?? 0;
+}
+
+// Measure the inharmonicity of the last analyzed frame around a fundamental
+export function measureInharmonicity(fundamental: number): InharmonicityMeasurement | null {
+  if (!lastSpectrum) {
+    return null;
+  }
+  return estimateInharmonicity(
+    lastSpectrum.spectrum,
+    lastSpectrum.sampleRate,
+    lastSpectrum.fftSize,
+    fundamental
+  );
+}
+
+// Forget the previous note, e.g. when a new recording or stream starts
+export function resetPitchTracking(): void {
+  lastEstimate = null;
+  octaveJumpCount = 0;
+  ESTIMATORS.forEach(estimator => estimator.reset?.());
+}
+
+// Turn octave error correction on or off (e.g. to compare estimators raw)
+export function setOctaveCorrection(enabled: boolean): void {
+  SETTINGS.octaveCorrection = enabled;
+}
+
 // Initialize resources
 export async function initAudioProcessor(): Promise<void> {
   try {
-    // Pre-allocate float buffer for PCM conversion
-    floatBuffer = new Float32Array(SETTINGS.bufferSize);
+    // Pre-allocate float buffer for PCM conversion (largest window)
+    floatBuffer = new Float32Array(SETTINGS.maxWindowSize);
     
     // Pre-allocate power-of-two buffer for Meyda
-    powerOfTwoBuffer = new Float32Array(SETTINGS.bufferSize);
+    powerOfTwoBuffer = new Float32Array(SETTINGS.maxWindowSize);
+    
+    // Scratch buffer for estimators that window the frame
+    windowedBuffer = new Float32Array(SETTINGS.maxWindowSize);
+    
+    // Lag-domain output of the autocorrelation and YIN difference functions
+    correlationBuffer = new Float32Array(SETTINGS.maxWindowSize / 2);
     
     // Pre-compute Hann window for better spectral analysis
-    hannWindow = new Float32Array(SETTINGS.bufferSize);
-    for (let i = 0; i < SETTINGS.bufferSize; i++) {
-      hannWindow[i] = 0.5 * (1 - Math.cos(2 * Math.PI * i / (SETTINGS.bufferSize - 1)));
-    }
+    getHannWindow(SETTINGS.bufferSize);
+    lastEstimate = null;
     
     console.log('Audio processor initialized successfully');
     return Promise.resolve();
@@ -75,27 +258,31 @@ export async function initAudioProcessor(): Promise<void> {
   }
 }
 
-// Convert Int16Array PCM to Float32Array (-1 to 1 range)
+// Convert the most recent samples of Int16Array PCM to Float32Array (-1 to 1 range)
 // Optimized version that reuses buffer
-function convertToFloat32(pcmData: Int16Array): Float32Array {
-  const length = Math.min(pcmData.length, floatBuffer.length);
+function convertToFloat32(pcmData: Int16Array, windowSize: number): Float32Array {
+  const length = Math.min(pcmData.length, windowSize, floatBuffer.length);
+  const offset = pcmData.length - length;
   
   for (let i = 0; i < length; i++) {
-    floatBuffer[i] = pcmData[i] / 32768; // Convert to -1.0 to 1.0 range
+    floatBuffer[i] = pcmData[offset + i] / 32768; // Convert to -1.0 to 1.0 range
   }
   
   return floatBuffer.subarray(0, length);
 }
 
-// Apply window function to the buffer for better frequency analysis
+// Apply window function to a copy of the buffer for better frequency analysis
+// (the frame is shared between estimators, so it is never windowed in place)
 function applyWindow(buffer: Float32Array): Float32Array {
-  const length = Math.min(buffer.length, hannWindow.length);
+  const hannWindow = getHannWindow(buffer.length);
+  const length = buffer.length;
+  const windowed = windowedBuffer.subarray(0, length);
   
   for (let i = 0; i < length; i++) {
-    buffer[i] *= hannWindow[i];
+    windowed[i] = buffer[i] * hannWindow[i];
   }
   
-  return buffer;
+  return windowed;
 }
 
 // Ensure buffer is power of 2 size for Meyda
@@ -108,7 +295,7 @@ function ensurePowerOfTwoBuffer(buffer: Float32Array): Float32Array {
   // Find nearest power of 2 (not exceeding our max buffer size)
   const targetSize = Math.min(
     nextPowerOfTwo(buffer.length),
-    SETTINGS.bufferSize
+    SETTINGS.maxWindowSize
   );
   
   // Copy data from original buffer
@@ -122,7 +309,7 @@ function ensurePowerOfTwoBuffer(buffer: Float32Array): Float32Array {
     powerOfTwoBuffer[i] = 0;
   }
   
-  return powerOfTwoBuffer;
+  return powerOfTwoBuffer.subarray(0, targetSize);
 }
 
 // Calculate cents deviation from target frequency
@@ -130,60 +317,59 @@ function calculateCents(detected: number, target: number): number {
   return Math.round(1200 * Math.log2(detected / target));
 }
 
-// Get octave number based on frequency
-function getOctaveFromFrequency(freq: number, note: string): number {
-  const noteFreqInOctave4 = NOTE_FREQUENCIES[note];
-  
-  // Base octave for the reference note
-  const baseOctave = 4;
-  
-  // Calculate how many octaves away from the reference
-  const octavesFromBase = Math.log2(freq / noteFreqInOctave4);
-  
-  // Round to nearest octave
-  return Math.round(baseOctave + octavesFromBase);
-}
-
-// Find the closest note to a given frequency
-function findClosestNote(frequency: number): NotePitch | null {
+// Find the closest note to an estimated frequency
+function findClosestNote(estimate: PitchEstimate): NotePitch | null {
+  const { frequency } = estimate;
   if (frequency < SETTINGS.minFrequency || frequency > SETTINGS.maxFrequency) {
     return null;
   }
   
-  // Reference frequency for A4 = 440Hz
-  const refFreq = 440.0;
+  // Reference frequency for A4 (concert pitch)
+  const refFreq = SETTINGS.referenceFrequency;
   
-  // Calculate how many half steps away from A4
+  // Calculate how many half steps away from A4 (equal temperament)
   const halfStepsFromA4 = Math.round(12 * Math.log2(frequency / refFreq));
   
-  // Calculate the note index (0 = C, 1 = C#, etc)
-  const noteIndex = (9 + halfStepsFromA4) % 12;
-  if (noteIndex < 0 || noteIndex >= ALL_NOTES.length) {
-    return null;
-  }
-  
-  const note = ALL_NOTES[noteIndex];
-  
-  // Calculate the "perfect" frequency for this note
-  const octave = getOctaveFromFrequency(frequency, note);
-  const noteFreqInOctave4 = NOTE_FREQUENCIES[note];
-  const perfectFreq = noteFreqInOctave4 * Math.pow(2, octave - 4);
+  // Tempered targets can sit well away from equal temperament, so also
+  // consider the neighbouring notes and keep the closest tempered target
+  let closest: NotePitch | null = null;
+  let closestDistance = Infinity;
   
-  // Calculate how many cents off the note is
-  const cents = calculateCents(frequency, perfectFreq);
+  for (let halfSteps = halfStepsFromA4 - 1; halfSteps <= halfStepsFromA4 + 1; halfSteps++) {
+    // Calculate the note index (0 = C, 1 = C#, etc), wrapping negatives below A4
+    const noteIndex = (((9 + halfSteps) % 12) + 12) % 12;
+    const note = ALL_NOTES[noteIndex];
+    
+    // C0 is 57 half steps below A4
+    const octave = Math.floor((57 + halfSteps) / 12);
+    
+    // Calculate the "perfect" (tempered and stretched) frequency for this note
+    const stretch = getStretchOffset(69 + halfSteps);
+    const perfectFreq = NOTE_FREQUENCIES[note] * Math.pow(2, octave - 4 + stretch / 1200);
+    const distance = Math.abs(Math.log2(frequency / perfectFreq));
+    
+    if (distance < closestDistance) {
+      closestDistance = distance;
+      closest = {
+        note,
+        octave,
+        frequency,
+        // Calculate how many cents off the note is
+        cents: calculateCents(frequency, perfectFreq),
+        confidence: estimate.confidence,
+        source: estimate.source
+      };
+    }
+  }
   
-  return {
-    note,
-    octave,
-    frequency,
-    cents
-  };
+  return closest;
 }
 
-// Enhanced autocorrelation function for pitch detection with better accuracy
-function autoCorrelate(buffer: Float32Array, sampleRate: number): number | null {
+// Enhanced autocorrelation function for pitch detection with better accuracy.
+// Confidence is the peak height relative to the zero-lag energy
+function autoCorrelate(frame: Float32Array, sampleRate: number): PitchEstimate | null {
   // Apply Hann window for better spectral results
-  applyWindow(buffer);
+  const buffer = applyWindow(frame);
   
   // Find the root mean square (volume) to decide if there's enough signal
   let rms = 0;
@@ -195,17 +381,16 @@ function autoCorrelate(buffer: Float32Array, sampleRate: number): number | null
   // Not enough signal - increased sensitivity for quieter sounds
   if (rms < 0.005) return null;
   
-  // Autocorrelate the signal with optimized approach
-  const correlations = new Float32Array(buffer.length / 2);
+  // Autocorrelate the signal via FFT, only up to the longest lag allowed
+  // by the instrument's frequency range
+  const correlations = autocorrelation(buffer, correlationBuffer.subarray(0, Math.min(
+    buffer.length / 2,
+    Math.ceil(sampleRate / SETTINGS.minFrequency) + 2
+  )));
   
-  // Optimization: Only compute half the correlations (sufficient for frequency detection)
-  // Use memory locality optimization by having the inner loop access sequential memory
+  // Normalize by the number of overlapping samples at each lag
   for (let lag = 0; lag < correlations.length; lag++) {
-    let sum = 0;
-    for (let i = 0; i < buffer.length - lag; i++) {
-      sum += buffer[i] * buffer[i + lag];
-    }
-    correlations[lag] = sum / (buffer.length - lag);
+    correlations[lag] /= buffer.length - lag;
   }
   
   // Find the first peak after the initial drop
@@ -214,7 +399,7 @@ function autoCorrelate(buffer: Float32Array, sampleRate: number): number | null
   
   // Skip the first part where autocorrelation naturally drops
   // Optimize search range based on expected frequencies
-  const startIndex = Math.floor(sampleRate / SETTINGS.maxFrequency);
+  const startIndex = Math.floor(sampleRate / getMaxFrequency(sampleRate));
   const endIndex = Math.min(
     correlations.length - 1, 
     Math.ceil(sampleRate / SETTINGS.minFrequency)
@@ -260,29 +445,59 @@ function autoCorrelate(buffer: Float32Array, sampleRate: number): number | null
   const refinedPeak = peakIndex - b / (2 * a);
   const frequency = sampleRate / refinedPeak;
   
-  return frequency;
+  return {
+    frequency,
+    confidence: Math.max(0, Math.min(1, y2 / correlations[0])),
+    source: 'autocorrelation'
+  };
+}
+
+// Parabolic interpolation around a YIN minimum for better accuracy
+function refineTau(yinBuffer: Float32Array, tau: number): number {
+  const y1 = yinBuffer[tau - 1];
+  const y2 = yinBuffer[tau];
+  const y3 = yinBuffer[tau + 1];
+  const a = (y1 + y3 - 2 * y2) / 2;
+  const b = (y3 - y1) / 2;
+  
+  if (a <= 0) {
+    return tau;
+  }
+  
+  // Never move further than half a sample from the integer minimum
+  const shift = -b / (2 * a);
+  return tau + Math.max(-0.5, Math.min(0.5, shift));
+}
+
+// Build a YIN result from the chosen lag
+function yinEstimate(yinBuffer: Float32Array, tau: number, sampleRate: number): PitchEstimate {
+  return {
+    frequency: sampleRate / refineTau(yinBuffer, tau),
+    confidence: Math.max(0, Math.min(1, 1 - yinBuffer[tau])),
+    source: 'yin'
+  };
 }
 
 // Improved YIN algorithm - a more accurate pitch detection method
-// This provides better results especially for lower frequencies
-function yinPitchDetection(buffer: Float32Array, sampleRate: number): number | null {
+// This provides better results especially for lower frequencies.
+// Confidence is one minus the aperiodicity at the chosen lag
+function yinPitchDetection(buffer: Float32Array, sampleRate: number): PitchEstimate | null {
   const bufferSize = buffer.length;
   const halfBufferSize = Math.floor(bufferSize / 2);
-  const yinBuffer = new Float32Array(halfBufferSize);
-  
-  // Compute the difference function
-  for (let tau = 0; tau < halfBufferSize; tau++) {
-    yinBuffer[tau] = 0;
-    for (let i = 0; i < halfBufferSize; i++) {
-      const delta = buffer[i] - buffer[i + tau];
-      yinBuffer[tau] += delta * delta;
-    }
+  
+  // Only search lags that correspond to the instrument's frequency range
+  const minTauSearch = Math.max(2, Math.floor(sampleRate / getMaxFrequency(sampleRate)));
+  const maxTauSearch = Math.min(halfBufferSize, Math.ceil(sampleRate / SETTINGS.minFrequency) + 2);
+  if (minTauSearch >= maxTauSearch - 1) {
+    return null;
   }
+  // Compute the difference function via FFT
+  const yinBuffer = yinDifference(buffer, correlationBuffer.subarray(0, maxTauSearch));
   
   // Cumulative normalization
   yinBuffer[0] = 1;
   let runningSum = 0;
-  for (let tau = 1; tau < halfBufferSize; tau++) {
+  for (let tau = 1; tau < maxTauSearch; tau++) {
     runningSum += yinBuffer[tau];
     yinBuffer[tau] *= tau / runningSum;
   }
@@ -292,12 +507,13 @@ function yinPitchDetection(buffer: Float32Array, sampleRate: number): number | n
   let minVal = 1;
   let minTau = 0;
   
-  for (let tau = 2; tau < halfBufferSize; tau++) {
+  for (let tau = minTauSearch; tau < maxTauSearch - 1; tau++) {
     if (yinBuffer[tau] < threshold) {
-      while (tau + 1 < halfBufferSize && yinBuffer[tau + 1] < yinBuffer[tau]) {
+      while (tau + 1 < maxTauSearch - 1 && yinBuffer[tau + 1] < yinBuffer[tau]) {
         tau++;
       }
-      return sampleRate / tau;
+      // Integer lags are too coarse for low notes, so refine between samples
+      return yinEstimate(yinBuffer, tau, sampleRate);
     }
     
     if (yinBuffer[tau] < minVal) {
@@ -308,38 +524,283 @@ function yinPitchDetection(buffer: Float32Array, sampleRate: number): number | n
   
   // If no value found under threshold, use the minimum value
   if (minTau > 0 && minVal < 0.5) {
-    // Parabolic interpolation for better accuracy
-    const y1 = yinBuffer[minTau - 1];
-    const y2 = yinBuffer[minTau];
-    const y3 = yinBuffer[minTau + 1];
-    const a = (y1 + y3 - 2 * y2) / 2;
-    const b = (y3 - y1) / 2;
-    
-    if (a !== 0) {
-      const refinedTau = minTau - b / (2 * a);
-      return sampleRate / refinedTau;
-    }
-    
-    return sampleRate / minTau;
+    return yinEstimate(yinBuffer, minTau, sampleRate);
   }
   
   return null; // No pitch found
 }
 
-// Estimate fundamental frequency using multiple methods
-function estimateFrequency(buffer: Float32Array, sampleRate: number): number | null {
+// Harmonics examined when checking for octave errors
+const OCTAVE_CHECK_HARMONICS = 8;
+
+// A candidate at f/2 is real when its odd harmonics (which f lacks) carry at
+// least this share of the even ones; f is a subharmonic of 2f when its own odd
+// harmonics carry less than the second share
+const SUBHARMONIC_SUPPORT = 0.2;
+const MISSING_ODD_HARMONICS = 0.1;
+
+// Peak amplitude of the spectrum within a bin of a frequency
+function spectrumPeak(spectrum: Float32Array, binWidth: number, frequency: number): number {
+  const center = Math.round(frequency / binWidth);
+  if (center < 1 || center >= spectrum.length - 1) {
+    return 0;
+  }
+  return Math.max(spectrum[center - 1], spectrum[center], spectrum[center + 1]);
+}
+
+// Summed amplitude at the odd and at the even harmonics of a candidate fundamental
+function harmonicParity(
+  spectrum: Float32Array,
+  binWidth: number,
+  fundamental: number
+): { odd: number; even: number } {
+  const energy = { odd: 0, even: 0 };
+  for (let h = 1; h <= OCTAVE_CHECK_HARMONICS; h++) {
+    const amplitude = spectrumPeak(spectrum, binWidth, fundamental * h);
+    if (h % 2) {
+      energy.odd += amplitude;
+    } else {
+      energy.even += amplitude;
+    }
+  }
+  return energy;
+}
+
+// Test the estimate against the candidate periods at x2 and x1/2 and keep
+// the one the harmonic energy supports
+function correctOctaveBySpectrum(frequency: number, frame: AnalysisFrame): number {
+  const { spectrum, sampleRate } = frame;
+  const binWidth = sampleRate / (spectrum.length * 2);
+  
+  // Locked onto the second partial: the true fundamental's odd harmonics show up
+  const lower = frequency / 2;
+  if (lower >= frame.minFrequency && lower >= 2 * binWidth) {
+    const { odd, even } = harmonicParity(spectrum, binWidth, lower);
+    if (even > 0 && odd >= SUBHARMONIC_SUPPORT * even) {
+      return lower;
+    }
+  }
+  
+  // Locked onto a subharmonic: only every other harmonic is really there
+  const upper = frequency * 2;
+  if (upper <= frame.maxFrequency) {
+    const { odd, even } = harmonicParity(spectrum, binWidth, frequency);
+    if (even > 0 && odd < MISSING_ODD_HARMONICS * even) {
+      return upper;
+    }
+  }
+  
+  return frequency;
+}
+
+// Hold the tracked octave until a leap persists, so one bad frame can't flip it
+function stabilizeOctave(frequency: number): number {
+  if (!lastEstimate) {
+    octaveJumpCount = 0;
+    return frequency;
+  }
+  
+  const octaves = Math.log2(frequency / lastEstimate);
+  const leap = Math.round(octaves);
+  
+  // Same pitch class (within 50 cents) in a different octave
+  if (leap !== 0 && Math.abs(octaves - leap) < 1 / 24) {
+    octaveJumpCount++;
+    if (octaveJumpCount < SETTINGS.octaveJumpFrames) {
+      return frequency / Math.pow(2, leap);
+    }
+  }
+  
+  octaveJumpCount = 0;
+  return frequency;
+}
+
+// Harmonic product spectrum: the fundamental is the bin whose harmonics are
+// jointly strongest. Coarse for low notes, but independent of the waveform shape.
+// Confidence is the share of spectral energy found at those harmonics
+function harmonicProductSpectrum(frame: AnalysisFrame): PitchEstimate | null {
+  const { spectrum, sampleRate } = frame;
+  const binWidth = sampleRate / (spectrum.length * 2);
+  const minBin = Math.max(2, Math.floor(frame.minFrequency / binWidth));
+  const maxBin = Math.min(spectrum.length - 2, Math.ceil(frame.maxFrequency / binWidth));
+  const harmonics = Math.min(5, Math.floor((spectrum.length - 1) / maxBin));
+  if (minBin >= maxBin || harmonics < 1) {
+    return null;
+  }
+  
+  let bestBin = 0;
+  let bestScore = -Infinity;
+  for (let bin = minBin; bin <= maxBin; bin++) {
+    // Sum of logs rather than a product, to stay in floating-point range
+    let score = 0;
+    for (let h = 1; h <= harmonics; h++) {
+      score += Math.log(spectrum[bin * h] + 1e-9);
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestBin = bin;
+    }
+  }
+  
+  // Refine the fundamental's peak between bins
+  const y1 = spectrum[bestBin - 1];
+  const y2 = spectrum[bestBin];
+  const y3 = spectrum[bestBin + 1];
+  const a = (y1 + y3 - 2 * y2) / 2;
+  const shift = a < 0 ? Math.max(-0.5, Math.min(0.5, -(y3 - y1) / (4 * a))) : 0;
+  
+  let totalEnergy = 0;
+  for (let bin = 1; bin < spectrum.length; bin++) {
+    totalEnergy += spectrum[bin] * spectrum[bin];
+  }
+  let harmonicEnergy = 0;
+  for (let h = 1; bestBin * h + 1 < spectrum.length; h++) {
+    for (let bin = bestBin * h - 1; bin <= bestBin * h + 1; bin++) {
+      harmonicEnergy += spectrum[bin] * spectrum[bin];
+    }
+  }
+  
+  return {
+    frequency: (bestBin + shift) * binWidth,
+    confidence: totalEnergy > 0 ? Math.min(1, harmonicEnergy / totalEnergy) : 0,
+    source: 'spectral-peak'
+  };
+}
+
+// Built-in estimators
+const YIN_ESTIMATOR: PitchEstimator = {
+  id: 'yin',
+  name: 'YIN',
+  estimate: frame => yinPitchDetection(frame.samples, frame.sampleRate)
+};
+
+const AUTOCORRELATION_ESTIMATOR: PitchEstimator = {
+  id: 'autocorrelation',
+  name: 'Autocorrelation',
+  estimate: frame => autoCorrelate(frame.samples, frame.sampleRate)
+};
+
+const SPECTRAL_PEAK_ESTIMATOR: PitchEstimator = {
+  id: 'spectral-peak',
+  name: 'Harmonic Product Spectrum',
+  estimate: harmonicProductSpectrum
+};
+
+// Only used for clearly tonal frames, and always a guess: the centroid sits
+// above the fundamental for any sound with overtones
+const CENTROID_CONFIDENCE = 0.2;
+
+const SPECTRAL_CENTROID_ESTIMATOR: PitchEstimator = {
+  id: 'spectral-centroid',
+  name: 'Spectral Centroid',
+  estimate: frame => frame.spectralFlatness < 0.3
+    ? {
+        frequency: frame.spectralCentroid,
+        confidence: CENTROID_CONFIDENCE * (1 - frame.spectralFlatness / 0.3),
+        source: 'spectral-centroid'
+      }
+    : null
+};
+
+export const DEFAULT_ESTIMATOR_ID = 'auto';
+
+// Registered estimators, in the order they are offered to the user
+const ESTIMATORS: PitchEstimator[] = [];
+
+let activeEstimatorId = DEFAULT_ESTIMATOR_ID;
+
+// Add an estimator, replacing any registered under the same id
+export function registerPitchEstimator(estimator: PitchEstimator): void {
+  const index = ESTIMATORS.findIndex(e => e.id === estimator.id);
+  if (index >= 0) {
+    ESTIMATORS[index] = estimator;
+  } else {
+    ESTIMATORS.push(estimator);
+  }
+}
+
+// All registered estimators
+export function getPitchEstimators(): PitchEstimator[] {
+  return [...ESTIMATORS];
+}
+
+// Find a registered estimator by id
+export function getPitchEstimator(id: string): PitchEstimator | undefined {
+  return ESTIMATORS.find(e => e.id === id);
+}
+
+// Try estimators in order and keep the first result inside the search range
+export function createEstimatorChain(id: string, name: string, estimatorIds: string[]): PitchEstimator {
+  return {
+    id,
+    name,
+    async estimate(frame) {
+      for (const estimatorId of estimatorIds) {
+        const estimator = getPitchEstimator(estimatorId);
+        if (!estimator) continue;
+        const estimate = await estimator.estimate(frame);
+        if (estimate && estimate.frequency >= frame.minFrequency && estimate.frequency <= frame.maxFrequency) {
+          return estimate;
+        }
+      }
+      return null;
+    }
+  };
+}
+
+// Choose the estimator detectPitch uses
+export function setPitchEstimator(id: string): void {
+  if (!getPitchEstimator(id)) {
+    console.warn('Unknown pitch estimator:', id);
+    return;
+  }
+  activeEstimatorId = id;
+}
+
+// Id of the estimator detectPitch uses
+export function getPitchEstimatorSetting(): string {
+  return activeEstimatorId;
+}
+
+registerPitchEstimator(createEstimatorChain(
+  DEFAULT_ESTIMATOR_ID,
+  'Automatic (YIN → Autocorrelation → Centroid)',
+  [YIN_ESTIMATOR.id, AUTOCORRELATION_ESTIMATOR.id, SPECTRAL_CENTROID_ESTIMATOR.id]
+));
+registerPitchEstimator(YIN_ESTIMATOR);
+registerPitchEstimator(AUTOCORRELATION_ESTIMATOR);
+registerPitchEstimator(SPECTRAL_PEAK_ESTIMATOR);
+registerPitchEstimator(SPECTRAL_CENTROID_ESTIMATOR);
+
+// Estimate the fundamental frequency with the active estimator
+async function estimateFrequency(
+  buffer: Float32Array,
+  pcm: Int16Array,
+  sampleRate: number
+): Promise<PitchEstimate | null> {
   try {
     // Make sure buffer is power of 2 size
     const processBuffer = ensurePowerOfTwoBuffer(buffer);
     
+    // Meyda sizes its spectrum from its own settings rather than the input
+    Meyda.bufferSize = processBuffer.length;
+    Meyda.sampleRate = sampleRate;
+    
     // Try Meyda's spectral features first
     const features = Meyda.extract([
       'rms', 
       'energy',
       'spectralCentroid',
-      'spectralFlatness'
+      'spectralFlatness',
+      'amplitudeSpectrum'
     ], processBuffer);
     
+    lastSpectrum = {
+      spectrum: features.amplitudeSpectrum as Float32Array,
+      sampleRate,
+      fftSize: processBuffer.length
+    };
+    
     // Unpack features
     const rms = features.rms as number;
     const energy = features.energy as number;
@@ -355,22 +816,32 @@ function estimateFrequency(buffer: Float32Array, sampleRate: number): number | n
       return null; // Too noisy
     }
     
-    // Try YIN algorithm first for better low-frequency detection
-    let frequency = yinPitchDetection(processBuffer, sampleRate);
-    
-    // If YIN fails, try autocorrelation
-    if (!frequency || frequency < SETTINGS.minFrequency || frequency > SETTINGS.maxFrequency) {
-      frequency = autoCorrelate(processBuffer, sampleRate);
+    const estimator = getPitchEstimator(activeEstimatorId) ?? getPitchEstimator(DEFAULT_ESTIMATOR_ID);
+    const frame: AnalysisFrame = {
+      samples: processBuffer,
+      pcm,
+      sampleRate,
+      spectrum: features.amplitudeSpectrum as Float32Array,
+      spectralCentroid,
+      spectralFlatness,
+      minFrequency: SETTINGS.minFrequency,
+      maxFrequency: getMaxFrequency(sampleRate)
+    };
+    const estimate = await estimator.estimate(frame);
+    if (!estimate) {
+      return null;
     }
     
-    // If both methods fail but we have a clear spectral centroid in range
-    if (!frequency && spectralCentroid > SETTINGS.minFrequency && 
-        spectralCentroid < SETTINGS.maxFrequency && spectralFlatness < 0.3) {
-      // Use spectral centroid as fallback, but with lower confidence
-      return spectralCentroid;
-    }
+    const frequency = SETTINGS.octaveCorrection
+      ? stabilizeOctave(correctOctaveBySpectrum(estimate.frequency, frame))
+      : estimate.frequency;
     
-    return frequency;
+    // Noisy frames make every estimator less trustworthy
+    return {
+      ...estimate,
+      frequency,
+      confidence: estimate.confidence * (1 - spectralFlatness)
+    };
   } catch (error) {
     console.error('Error in frequency estimation:', error);
     return null;
@@ -378,26 +849,42 @@ function estimateFrequency(buffer: Float32Array, sampleRate: number): number | n
 }
 
 // Main pitch detection function with optimizations
-export async function detectPitch(pcmData: Int16Array): Promise<NotePitch | null> {
+export async function detectPitch(
+  pcmData: Int16Array,
+  sampleRate: number = SETTINGS.sampleRate
+): Promise<NotePitch | null> {
   try {
     // We need enough data to analyze
-    if (pcmData.length < 1024) {
+    if (pcmData.length < SETTINGS.minWindowSize) {
       return null;
     }
     
+    // Analyze the most recent samples with the adaptive window, or as much
+    // of it as the caller could provide
+    const windowSize = Math.min(
+      getAnalysisWindowSize(sampleRate),
+      previousPowerOfTwo(pcmData.length)
+    );
+    
     // Convert to float [-1, 1] - optimized to reuse buffer
-    const floatData = convertToFloat32(pcmData);
+    const floatData = convertToFloat32(pcmData, windowSize);
+    const pcmWindow = pcmData.subarray(pcmData.length - floatData.length);
+    
+    // Estimate frequency with the active estimator
+    const estimate = await estimateFrequency(floatData, pcmWindow, sampleRate);
     
-    // Estimate frequency using multiple methods
-    const frequency = estimateFrequency(floatData, SETTINGS.sampleRate);
+    // Size the next window for this note (or the whole range when lost)
+    const inRange = !!estimate &&
+      estimate.frequency >= SETTINGS.minFrequency && estimate.frequency <= getMaxFrequency(sampleRate);
+    lastEstimate = inRange ? estimate.frequency : null;
     
     // If no frequency detected
-    if (!frequency) {
+    if (!estimate) {
       return null;
     }
     
     // Find the closest note
-    const notePitch = findClosestNote(frequency);
+    const notePitch = findClosestNote(estimate);
     
     return notePitch;
   } catch (error) {
@@ -406,17 +893,80 @@ export async function detectPitch(pcmData: Int16Array): Promise<NotePitch | null
   }
 }
 
+// Polyphonic detection: every note sounding in the frame and the chord they
+// form. Always uses the longest window available, since resolving close notes
+// in the bass matters more here than latency.
+export async function detectChord(
+  pcmData: Int16Array,
+  sampleRate: number = SETTINGS.sampleRate
+): Promise<ChordReading | null> {
+  try {
+    if (pcmData.length < SETTINGS.minWindowSize) {
+      return null;
+    }
+    
+    const windowSize = Math.min(SETTINGS.maxWindowSize, previousPowerOfTwo(pcmData.length));
+    const floatData = convertToFloat32(pcmData, windowSize);
+    
+    Meyda.bufferSize = floatData.length;
+    Meyda.sampleRate = sampleRate;
+    const features = Meyda.extract(['rms', 'energy', 'amplitudeSpectrum'], floatData);
+    
+    if ((features.energy as number) < 0.0005 || (features.rms as number) < 0.005) {
+      return null; // Too quiet
+    }
+    
+    const found = estimatePolyphonicNotes(
+      features.amplitudeSpectrum as Float32Array,
+      sampleRate,
+      floatData.length,
+      SETTINGS.minFrequency,
+      getMaxFrequency(sampleRate),
+      SETTINGS.referenceFrequency
+    );
+    
+    // Name each note against the active temperament, dropping duplicates
+    const notes: NotePitch[] = [];
+    for (const { frequency, salience } of found) {
+      const pitch = findClosestNote({ frequency, confidence: salience, source: 'polyphonic' });
+      if (pitch && !notes.some(n => n.note === pitch.note && n.octave === pitch.octave)) {
+        notes.push(pitch);
+      }
+    }
+    
+    if (notes.length === 0) {
+      return null;
+    }
+    
+    return {
+      notes,
+      chord: nameChord(notes.map(n => n.note), notes[0].note)
+    };
+  } catch (error) {
+    console.error('Error detecting chord:', error);
+    return null;
+  }
+}
+
 // Get expected frequencies for all notes across octaves
 export function getNoteFrequencies(minOctave = 2, maxOctave = 6): { [key: string]: number } {
   const frequencies: { [key: string]: number } = {};
   
   for (let octave = minOctave; octave <= maxOctave; octave++) {
     for (const note of ALL_NOTES) {
-      const baseFreq = NOTE_FREQUENCIES[note];
-      const freq = baseFreq * Math.pow(2, octave - 4); // Adjust for octave
-      frequencies[`${note}${octave}`] = freq;
+      frequencies[`${note}${octave}`] = getNoteFrequency(note, octave);
     }
   }
   
   return frequencies;
+}
+
+// Get the expected frequency of a single note at the current concert pitch
+export function getNoteFrequency(note: string, octave = 4): number | null {
+  const baseFreq = NOTE_FREQUENCIES[note];
+  if (baseFreq === undefined) {
+    return null;
+  }
+  const stretch = getStretchOffset(12 * (octave + 1) + ALL_NOTES.indexOf(note));
+  return baseFreq * Math.pow(2, octave - 4 + stretch / 1200); // Adjust for octave and stretch
 }
\ No newline at end of file
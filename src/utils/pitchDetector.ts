@@ -1,13 +1,21 @@
-import { Asset } from 'expo-asset';
-import * as FileSystem from 'expo-file-system';
 import Meyda from 'meyda';
-import { loadTensorflowModel, TensorflowModel } from 'react-native-fast-tflite';
 import { decode as atob } from 'base-64';
-
-import modelAsset from '../assets/pitch_detector.tflite';
+import {
+  registerPitchEstimator,
+  getPitchEstimator,
+  getNoteFrequency,
+  AnalysisFrame,
+  DEFAULT_ESTIMATOR_ID
+} from './pitchAnalyzer';
+import { CHROMA, EnsembleDecision, pitchClassOf, resolveEnsemble } from './ensemble';
+
+// Runs the model on one input tensor and returns its first output. Supplied
+// by whatever loaded the .tflite file: react-native-fast-tflite in the app
+// (pitchModelLoader.ts), node-tflite in the benchmark
+export type PitchModel = (input: Float32Array) => Float32Array;
 
 // Shared singleton model instance
-let model: TensorflowModel | null = null;
+let model: PitchModel | null = null;
 
 // Define buffer interface to support TypeScript
 interface ProcessingBuffers {
@@ -90,35 +98,9 @@ function createMelFilterBank(options: {
   return melFilterBank;
 }
 
-// 2) Initialize model with proper error handling
-export async function initPitchModel() {
-  if (model !== null) return;
-
-  try {
-    // Load asset with explicit path tracking
-    const asset = Asset.fromModule(modelAsset);
-    await asset.downloadAsync();
-
-    if (!asset.localUri) {
-      throw new Error('Model file path missing.');
-    }
-
-    console.log('Loading pitch detection model from:', asset.localUri);
-
-    // Load model with more detailed error handling
-    try {
-      model = await loadTensorflowModel({
-        url: asset.localUri
-      });
-      console.log('Pitch detection model loaded successfully');
-    } catch (modelError) {
-      console.error('TensorFlow model load error:', modelError);
-      throw new Error(`Failed to load TensorFlow model: ${modelError.message}`);
-    }
-  } catch (err) {
-    console.error('Failed to initialize pitch detection model:', err);
-    // Don't rethrow - allow app to continue without ML functionality
-  }
+// 2) Install the loaded model, or null to go back to DSP alone
+export function setPitchModel(next: PitchModel | null): void {
+  model = next;
 }
 
 // 3) Optimized PCM conversion with direct reuse of buffer
@@ -244,7 +226,47 @@ function makeLogMel(
   return result;
 }
 
-// 6) Optimized prediction from raw PCM data with signal quality check
+// 6) Run the loaded model on PCM and return its 12 chroma scores (C to B)
+function runModel(pcmData: Int16Array): number[] {
+  // Normalize PCM data with reusable buffer
+  const wav = convertPCM(pcmData);
+
+  // Create log-mel spectrogram with buffer reuse
+  const mel = makeLogMel(wav);
+
+  // Copy data to input tensor buffer (already allocated)
+  const inputTensor = BUFFERS.inputTensor;
+  for (let i = 0; i < mel.length; i++) {
+    inputTensor[i] = mel[i];
+  }
+
+  // Run model with performance tracking
+  const startTime = performance.now();
+  const output = model!(inputTensor);
+  const inferenceTime = performance.now() - startTime;
+
+  if (inferenceTime > 100) {
+    console.log(`ML inference took ${inferenceTime.toFixed(1)}ms - may need optimization`);
+  }
+
+  // Process results - get raw output array
+  return Array.from(output);
+}
+
+// Mean and standard deviation of the outputs, to spot degenerate (all similar) results
+function outputSpread(outputArray: number[]): { mean: number; stdDev: number } {
+  let sum = 0;
+  let sumSquared = 0;
+  for (let val of outputArray) {
+    sum += val;
+    sumSquared += val * val;
+  }
+  const mean = sum / outputArray.length;
+  const variance = sumSquared / outputArray.length - mean * mean;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+// 7) Optimized prediction from raw PCM data with signal quality check
 export async function predictFromPCM(pcmData: Int16Array): Promise<[string, number]> {
   try {
     // Check for sufficient signal level before processing
@@ -260,66 +282,22 @@ export async function predictFromPCM(pcmData: Int16Array): Promise<[string, numb
       return ['', 0]; // No valid signal
     }
 
-    // Make sure model is initialized
-    if (!model) {
-      try {
-        await initPitchModel();
-      } catch (error) {
-        console.error('Failed to initialize model:', error);
-        return ['', 0];
-      }
-    }
-
+    // The app loads the model at launch; until then there is nothing to run
     if (!model) {
-      return ['', 0]; // Model still not available
+      return ['', 0];
     }
 
     try {
-      // Normalize PCM data with reusable buffer
-      const wav = convertPCM(pcmData);
-
-      // Create log-mel spectrogram with buffer reuse
-      const mel = makeLogMel(wav);
-
-      // Copy data to input tensor buffer (already allocated)
-      const inputTensor = BUFFERS.inputTensor;
-      for (let i = 0; i < mel.length; i++) {
-        inputTensor[i] = mel[i];
-      }
-
-      // Run model with performance tracking
-      const startTime = performance.now();
-      const outputs = model.runSync([inputTensor]);
-      const inferenceTime = performance.now() - startTime;
-
-      if (inferenceTime > 100) {
-        console.log(`ML inference took ${inferenceTime.toFixed(1)}ms - may need optimization`);
-      }
-
-      // Process results - get raw output array
-      const outputArray = Array.from(outputs[0] as Float32Array);
-
-      // Add sanity check for degenerate outputs (all similar values)
-      // Calculate standard deviation of outputs
-      let sum = 0;
-      let sumSquared = 0;
-      for (let val of outputArray) {
-        sum += val;
-        sumSquared += val * val;
-      }
-      const mean = sum / outputArray.length;
-      const variance = sumSquared / outputArray.length - mean * mean;
-      const stdDev = Math.sqrt(variance);
+      const outputArray = runModel(pcmData);
 
       // If standard deviation is very low, outputs are too similar (likely noise)
+      const { stdDev, mean } = outputSpread(outputArray);
       if (stdDev < 0.05) {
         console.log('ML model outputs too uniform, likely noise input:',
           { stdDev, mean, min: Math.min(...outputArray), max: Math.max(...outputArray) });
         return ['', 0]; // Not confident enough - values too similar
       }
 
-      const CHROMA = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-
       // Find highest probability note
       let best = -Infinity;
       let idx = 0;
@@ -378,7 +356,7 @@ export async function predictFromPCM(pcmData: Int16Array): Promise<[string, numb
   }
 }
 
-// 7) Predict from base64 encoded audio data (legacy support)
+// 8) Predict from base64 encoded audio data (legacy support)
 export async function predictOneAsync(base64: string): Promise<[string, number]> {
   try {
     // Convert base64 to Int16Array
@@ -390,4 +368,156 @@ export async function predictOneAsync(base64: string): Promise<[string, number]>
     console.error('Error processing base64 audio:', error);
     return ['', 0];
   }
-}
\ No newline at end of file
+}
+
+// 9) Pitch estimator backed by the model. The model only names the pitch
+// class, so the octave is the candidate with the strongest spectral peak.
+// Confidence is the model's probability for that class
+export const MODEL_SAMPLE_RATE = 16000; // makeLogMel's filterbank assumes this rate
+
+function locatePitchClass(note: string, frame: AnalysisFrame): number | null {
+  const { spectrum, sampleRate } = frame;
+  const binWidth = sampleRate / (spectrum.length * 2);
+  let best: number | null = null;
+  let bestMagnitude = 0;
+
+  for (let octave = 0; octave <= 8; octave++) {
+    const target = getNoteFrequency(note, octave);
+    if (!target || target < frame.minFrequency || target > frame.maxFrequency) continue;
+
+    // Strongest bin within a semitone of the target
+    const low = Math.max(1, Math.floor(target * Math.pow(2, -1 / 12) / binWidth));
+    const high = Math.min(spectrum.length - 2, Math.ceil(target * Math.pow(2, 1 / 12) / binWidth));
+    let peak = -1;
+    for (let bin = low; bin <= high; bin++) {
+      if (peak < 0 || spectrum[bin] > spectrum[peak]) peak = bin;
+    }
+    if (peak < 0 || spectrum[peak] <= bestMagnitude) continue;
+
+    // Refine between bins, but never leave the target note
+    const y1 = spectrum[peak - 1];
+    const y2 = spectrum[peak];
+    const y3 = spectrum[peak + 1];
+    const a = (y1 + y3 - 2 * y2) / 2;
+    const shift = a < 0 ? Math.max(-0.5, Math.min(0.5, -(y3 - y1) / (4 * a))) : 0;
+    const frequency = (peak + shift) * binWidth;
+
+    bestMagnitude = spectrum[peak];
+    best = Math.abs(1200 * Math.log2(frequency / target)) < 50 ? frequency : target;
+  }
+
+  return best;
+}
+
+registerPitchEstimator({
+  id: 'tflite',
+  name: 'Neural Network (TFLite)',
+  async estimate(frame) {
+    if (frame.sampleRate !== MODEL_SAMPLE_RATE) {
+      return null;
+    }
+    const prediction = await predictFromPCM(frame.pcm);
+    if (!prediction?.[0]) {
+      return null;
+    }
+    const frequency = locatePitchClass(prediction[0], frame);
+    return frequency
+      ? { frequency, confidence: Math.max(0, Math.min(1, prediction[1])), source: 'tflite' }
+      : null;
+  }
+});
+
+// 10) Chroma probabilities (C to B) for the ensemble, or null when the model
+// is unavailable or the input is too weak or ambiguous to classify
+export async function predictChroma(pcmData: Int16Array): Promise<number[] | null> {
+  if (!model) {
+    return null;
+  }
+  try {
+    let signalLevel = 0;
+    const sampleSize = Math.min(pcmData.length, 1000);
+    for (let i = 0; i < sampleSize; i++) {
+      signalLevel += Math.abs(pcmData[i]) / 32768;
+    }
+    if (signalLevel / sampleSize < 0.01) {
+      return null;
+    }
+
+    const outputArray = runModel(pcmData);
+    return outputSpread(outputArray).stdDev < 0.05 ? null : outputArray;
+  } catch (error) {
+    console.error('Error during chroma prediction:', error);
+    return null;
+  }
+}
+
+// 11) Ensemble of the DSP chain and the model's chroma; the rules are in
+// ensemble.ts. Inference blocks the JS thread, so it is picked in Pro Mode
+// rather than used by default, and the chroma is reused for a few streaming
+// hops while the DSP note stays the same
+const ENSEMBLE_ESTIMATOR_ID = 'ensemble';
+
+// Frames one chroma prediction is reused for (about 120 ms at 15 ms hops)
+const CHROMA_REUSE_FRAMES = 8;
+
+let lastEnsembleDecision: EnsembleDecision | null = null;
+let cachedChroma: { chroma: number[] | null; dspClass: number; frames: number } | null = null;
+
+// How the ensemble resolved the last frame, for the debug panel
+export function getLastEnsembleDecision(): EnsembleDecision | null {
+  return lastEnsembleDecision;
+}
+
+// The model's chroma for a frame, run again only when the DSP note changes or
+// the last prediction has been reused long enough
+async function getChroma(frame: AnalysisFrame, dspClass: number): Promise<number[] | null> {
+  if (cachedChroma && cachedChroma.dspClass === dspClass && cachedChroma.frames < CHROMA_REUSE_FRAMES) {
+    cachedChroma.frames++;
+    return cachedChroma.chroma;
+  }
+  const chroma = await predictChroma(frame.pcm);
+  cachedChroma = { chroma, dspClass, frames: 1 };
+  return chroma;
+}
+
+registerPitchEstimator({
+  id: ENSEMBLE_ESTIMATOR_ID,
+  name: 'Ensemble (DSP + Neural Network)',
+  async estimate(frame) {
+    const dsp = await getPitchEstimator(DEFAULT_ESTIMATOR_ID)!.estimate(frame);
+    if (!dsp) {
+      lastEnsembleDecision = null;
+      cachedChroma = null;
+      return null;
+    }
+
+    const dspClass = pitchClassOf(dsp.frequency);
+    const chroma = frame.sampleRate === MODEL_SAMPLE_RATE ? await getChroma(frame, dspClass) : null;
+    if (!chroma) {
+      lastEnsembleDecision = {
+        action: 'dsp-only',
+        dspNote: CHROMA[dspClass],
+        modelNote: null,
+        modelProbability: 0,
+        ratio: 1
+      };
+      return dsp;
+    }
+
+    const result = resolveEnsemble(dsp.frequency, chroma, frame);
+    lastEnsembleDecision = result.decision;
+    if (result.frequency === null) {
+      return null;
+    }
+
+    return {
+      frequency: result.frequency,
+      confidence: dsp.confidence * (0.5 + 0.5 * result.probability),
+      source: ENSEMBLE_ESTIMATOR_ID
+    };
+  },
+  reset() {
+    lastEnsembleDecision = null;
+    cachedChroma = null;
+  }
+});
@@ -0,0 +1,43 @@
+import { Asset } from 'expo-asset';
+import { loadTensorflowModel, TensorflowModel } from 'react-native-fast-tflite';
+import { setPitchModel } from './pitchDetector';
+
+import modelAsset from '../assets/pitch_detector.tflite';
+
+// Shared singleton model instance
+let model: TensorflowModel | null = null;
+
+// Load the bundled model with react-native-fast-tflite and hand it to the
+// pitch detector. Failures are logged and the app carries on with DSP alone
+export async function initPitchModel() {
+  if (model !== null) return;
+
+  try {
+    // Load asset with explicit path tracking
+    const asset = Asset.fromModule(modelAsset);
+    await asset.downloadAsync();
+
+    if (!asset.localUri) {
+      throw new Error('Model file path missing.');
+    }
+
+    console.log('Loading pitch detection model from:', asset.localUri);
+
+    // Load model with more detailed error handling
+    try {
+      model = await loadTensorflowModel({
+        url: asset.localUri
+      });
+      console.log('Pitch detection model loaded successfully');
+    } catch (modelError) {
+      console.error('TensorFlow model load error:', modelError);
+      throw new Error(`Failed to load TensorFlow model: ${modelError.message}`);
+    }
+
+    const loaded = model;
+    setPitchModel(input => loaded.runSync([input])[0] as Float32Array);
+  } catch (err) {
+    console.error('Failed to initialize pitch detection model:', err);
+    // Don't rethrow - allow app to continue without ML functionality
+  }
+}
@@ -0,0 +1,247 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// Practice sessions recorded from the tuner and kept on the device. The index
+// holds each session's per-note totals so the history can be shown without
+// loading every reading; the readings themselves are stored per session.
+
+// One reading as the tuner displayed it (written pitch)
+export interface SessionReading {
+  time: number;    // ms from the start of the session
+  note: string;
+  octave: number;
+  cents: number;
+  stable: boolean;
+}
+
+// Running totals for one note, so sessions can be merged exactly
+export interface NoteTotals {
+  note: string;
+  octave: number;
+  count: number;      // Stable readings
+  sumCents: number;
+  sumSquares: number; // Of cents
+  inTune: number;     // Stable readings within IN_TUNE_CENTS
+}
+
+export interface NoteStats {
+  name: string;          // e.g. "F#4"
+  count: number;
+  meanCents: number;     // Average deviation
+  spreadCents: number;   // Standard deviation
+  inTunePercent: number; // Share of the time within IN_TUNE_CENTS
+}
+
+export interface SessionSummary {
+  id: string;
+  startedAt: number;     // ms (Date.now())
+  endedAt: number;
+  transposition: string; // Instrument the readings are written for
+  readingCount: number;
+  notes: NoteTotals[];   // Lowest first
+}
+
+export interface PracticeSession extends SessionSummary {
+  readings: SessionReading[];
+}
+
+export interface WeekSummary {
+  weekStart: number; // ms, Monday 00:00 local time
+  sessions: number;
+  notes: NoteTotals[];
+}
+
+export interface SessionRecorder {
+  start(transposition: string): void;
+  add(note: string, octave: number, cents: number, stable: boolean): void;
+  stop(): Promise<SessionSummary | null>; // null when nothing stable was heard
+}
+
+// Deviation counted as in tune (cents)
+export const IN_TUNE_CENTS = 5;
+
+// Oldest sessions are dropped beyond this
+export const MAX_SESSIONS = 200;
+
+// Readings closer together than this are not recorded (ms)
+const READING_INTERVAL_MS = 100;
+
+const INDEX_KEY = 'practiceSessions';
+const SESSION_KEY_PREFIX = 'practiceSession:';
+
+const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Stored as [time, note, octave, cents, stable] to keep sessions small
+type StoredReading = [number, string, number, number, 0 | 1];
+
+const pitchIndex = (totals: NoteTotals) => 12 * totals.octave + ALL_NOTES.indexOf(totals.note);
+
+// Per-note totals of the stable readings
+export function summarizeReadings(readings: SessionReading[]): NoteTotals[] {
+  const byNote = new Map<string, NoteTotals>();
+
+  for (const reading of readings) {
+    if (!reading.stable) continue;
+    const name = `${reading.note}${reading.octave}`;
+    let totals = byNote.get(name);
+    if (!totals) {
+      totals = { note: reading.note, octave: reading.octave, count: 0, sumCents: 0, sumSquares: 0, inTune: 0 };
+      byNote.set(name, totals);
+    }
+    totals.count++;
+    totals.sumCents += reading.cents;
+    totals.sumSquares += reading.cents * reading.cents;
+    if (Math.abs(reading.cents) <= IN_TUNE_CENTS) totals.inTune++;
+  }
+
+  return [...byNote.values()].sort((a, b) => pitchIndex(a) - pitchIndex(b));
+}
+
+// Combine the totals of several sessions
+export function mergeNoteTotals(lists: NoteTotals[][]): NoteTotals[] {
+  const byNote = new Map<string, NoteTotals>();
+
+  for (const list of lists) {
+    for (const totals of list) {
+      const name = `${totals.note}${totals.octave}`;
+      const merged = byNote.get(name);
+      if (!merged) {
+        byNote.set(name, { ...totals });
+        continue;
+      }
+      merged.count += totals.count;
+      merged.sumCents += totals.sumCents;
+      merged.sumSquares += totals.sumSquares;
+      merged.inTune += totals.inTune;
+    }
+  }
+
+  return [...byNote.values()].sort((a, b) => pitchIndex(a) - pitchIndex(b));
+}
+
+export function getNoteStats(totals: NoteTotals): NoteStats {
+  const meanCents = totals.sumCents / totals.count;
+  const variance = Math.max(0, totals.sumSquares / totals.count - meanCents * meanCents);
+  return {
+    name: `${totals.note}${totals.octave}`,
+    count: totals.count,
+    meanCents,
+    spreadCents: Math.sqrt(variance),
+    inTunePercent: 100 * totals.inTune / totals.count
+  };
+}
+
+// Monday 00:00 of the week a time falls in, local time
+export function getWeekStart(time: number): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+  return date.getTime();
+}
+
+// Sessions grouped by week, newest first
+export function groupByWeek(sessions: SessionSummary[]): WeekSummary[] {
+  const weeks = new Map<number, SessionSummary[]>();
+
+  for (const session of sessions) {
+    const weekStart = getWeekStart(session.startedAt);
+    weeks.set(weekStart, [...(weeks.get(weekStart) ?? []), session]);
+  }
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([weekStart, list]) => ({
+      weekStart,
+      sessions: list.length,
+      notes: mergeNoteTotals(list.map(session => session.notes))
+    }));
+}
+
+// Saved sessions, newest first
+export async function loadSessionSummaries(): Promise<SessionSummary[]> {
+  const json = await AsyncStorage.getItem(INDEX_KEY);
+  const parsed = json ? JSON.parse(json) : [];
+  return Array.isArray(parsed) ? parsed : [];
+}
+
+export async function loadPracticeSession(id: string): Promise<PracticeSession | null> {
+  const summary = (await loadSessionSummaries()).find(session => session.id === id);
+  if (!summary) return null;
+
+  const json = await AsyncStorage.getItem(SESSION_KEY_PREFIX + id);
+  const stored: StoredReading[] = json ? JSON.parse(json) : [];
+  return {
+    ...summary,
+    readings: stored.map(([time, note, octave, cents, stable]) => ({
+      time, note, octave, cents, stable: stable === 1
+    }))
+  };
+}
+
+// Save a finished session, dropping the oldest beyond MAX_SESSIONS
+export async function savePracticeSession(
+  session: Omit<PracticeSession, 'id' | 'readingCount' | 'notes'>
+): Promise<SessionSummary | null> {
+  const notes = summarizeReadings(session.readings);
+  if (!notes.length) return null;
+
+  const summary: SessionSummary = {
+    id: String(session.startedAt),
+    startedAt: session.startedAt,
+    endedAt: session.endedAt,
+    transposition: session.transposition,
+    readingCount: session.readings.length,
+    notes
+  };
+  const stored: StoredReading[] = session.readings.map(r => [
+    r.time, r.note, r.octave, Math.round(r.cents * 10) / 10, r.stable ? 1 : 0
+  ]);
+
+  const sessions = [summary, ...(await loadSessionSummaries())];
+  const dropped = sessions.splice(MAX_SESSIONS);
+
+  await AsyncStorage.setItem(SESSION_KEY_PREFIX + summary.id, JSON.stringify(stored));
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(sessions));
+  if (dropped.length) {
+    await AsyncStorage.multiRemove(dropped.map(s => SESSION_KEY_PREFIX + s.id));
+  }
+  return summary;
+}
+
+export async function deletePracticeSession(id: string): Promise<void> {
+  const sessions = await loadSessionSummaries();
+  await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(sessions.filter(s => s.id !== id)));
+  await AsyncStorage.removeItem(SESSION_KEY_PREFIX + id);
+}
+
+// Collects the tuner's readings between start and stop, then saves them
+export function createSessionRecorder(): SessionRecorder {
+  let startedAt = 0;
+  let transposition = '';
+  let readings: SessionReading[] = [];
+  let lastTime = -Infinity;
+
+  return {
+    start(id) {
+      startedAt = Date.now();
+      transposition = id;
+      readings = [];
+      lastTime = -Infinity;
+    },
+
+    add(note, octave, cents, stable) {
+      if (!startedAt) return;
+      const time = Date.now() - startedAt;
+      if (time - lastTime < READING_INTERVAL_MS) return;
+      lastTime = time;
+      readings.push({ time, note, octave, cents, stable });
+    },
+
+    async stop() {
+      if (!startedAt) return null;
+      const session = { startedAt, endedAt: Date.now(), transposition, readings };
+      startedAt = 0;
+      readings = [];
+      return savePracticeSession(session);
+    }
+  };
+}
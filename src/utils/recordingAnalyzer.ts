@@ -0,0 +1,144 @@
+import { detectPitch, initAudioProcessor, resetPitchTracking, NotePitch } from './pitchAnalyzer';
+import type { DecodedAudio } from './wavDecoder';
+
+// One analysis frame of a recording
+export interface PitchFrame {
+  time: number; // Seconds from the start of the recording
+  pitch: NotePitch | null;
+}
+
+// A run of consecutive frames on the same note
+export interface NoteSegment {
+  start: number;     // Seconds
+  end: number;       // Seconds
+  note: string;
+  octave: number;
+  frequency: number; // Median frequency over the segment (Hz)
+  cents: number;     // Deviation of the median frequency (cents)
+  minCents: number;
+  maxCents: number;
+  confidence: number; // Mean confidence of the segment's frames (0 to 1)
+}
+
+export interface RecordingAnalysis {
+  duration: number;
+  sampleRate: number;
+  frames: PitchFrame[];
+  segments: NoteSegment[];
+}
+
+export interface RecordingAnalysisOptions {
+  hopSeconds?: number;        // Time between frames
+  minSegmentSeconds?: number; // Shorter runs are treated as transients
+  onProgress?: (fraction: number) => void;
+}
+
+const DEFAULT_HOP_SECONDS = 0.05;
+const DEFAULT_MIN_SEGMENT_SECONDS = 0.1;
+
+// Longest window detectPitch will use
+const FRAME_SAMPLES = 8192;
+
+// Frames analyzed between yields to the UI thread
+const FRAMES_PER_BATCH = 20;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Merge consecutive frames on the same note into segments
+export function buildNoteSegments(
+  frames: PitchFrame[],
+  hopSeconds: number,
+  minSegmentSeconds = DEFAULT_MIN_SEGMENT_SECONDS
+): NoteSegment[] {
+  const segments: NoteSegment[] = [];
+  let run: PitchFrame[] = [];
+
+  const flush = () => {
+    if (run.length === 0) return;
+    const first = run[0];
+    const last = run[run.length - 1];
+    // Frames are stamped with the end of their hop
+    const start = Math.max(0, first.time - hopSeconds);
+
+    if (last.time - start >= minSegmentSeconds) {
+      const frequencies = run.map(f => f.pitch!.frequency);
+      const cents = run.map(f => f.pitch!.cents);
+      const frequency = median(frequencies);
+      // Same note throughout, so cents scale with the frequency ratio
+      const centsOffset = Math.round(1200 * Math.log2(frequency / first.pitch!.frequency));
+
+      segments.push({
+        start,
+        end: last.time,
+        note: first.pitch!.note,
+        octave: first.pitch!.octave,
+        frequency,
+        cents: first.pitch!.cents + centsOffset,
+        minCents: Math.min(...cents),
+        maxCents: Math.max(...cents),
+        confidence: run.reduce((sum, f) => sum + f.pitch!.confidence, 0) / run.length
+      });
+    }
+    run = [];
+  };
+
+  for (const frame of frames) {
+    const current = run[0]?.pitch;
+    if (
+      !frame.pitch ||
+      (current && (current.note !== frame.pitch.note || current.octave !== frame.pitch.octave))
+    ) {
+      flush();
+    }
+    if (frame.pitch) {
+      run.push(frame);
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+// Run detectPitch over a whole recording, frame by frame
+export async function analyzeRecording(
+  audio: DecodedAudio,
+  options: RecordingAnalysisOptions = {}
+): Promise<RecordingAnalysis> {
+  const hopSeconds = options.hopSeconds ?? DEFAULT_HOP_SECONDS;
+  const hop = Math.max(1, Math.round(hopSeconds * audio.sampleRate));
+  const { samples, sampleRate } = audio;
+
+  await initAudioProcessor();
+  resetPitchTracking();
+
+  const frames: PitchFrame[] = [];
+  const frameCount = Math.max(0, Math.floor(samples.length / hop));
+
+  for (let i = 0; i < frameCount; i++) {
+    // Each frame ends at its timestamp, like the live stream
+    const end = Math.min(samples.length, (i + 1) * hop);
+    const start = Math.max(0, end - FRAME_SAMPLES);
+    const pitch = await detectPitch(samples.subarray(start, end), sampleRate);
+    frames.push({ time: end / sampleRate, pitch });
+
+    if ((i + 1) % FRAMES_PER_BATCH === 0) {
+      options.onProgress?.((i + 1) / frameCount);
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+  }
+  options.onProgress?.(1);
+
+  // Leave the live tuner starting from a clean state
+  resetPitchTracking();
+
+  return {
+    duration: audio.duration,
+    sampleRate,
+    frames,
+    segments: buildNoteSegments(frames, hop / sampleRate, options.minSegmentSeconds)
+  };
+}
@@ -0,0 +1,108 @@
+// Reference notes played from the bundled TinySOL recordings. The sample
+// nearest the target pitch (then the nearest dynamic) is played back at the
+// rate that moves it onto the target frequency, which covers notes without a
+// recording as well as concert pitch, temperament and stretch.
+
+import { Audio } from 'expo-av';
+import { SAMPLES, SAMPLE_INSTRUMENTS } from '../data/sampleIndex';
+
+export interface SampleInstrument {
+  id: string;   // TinySOL instrument abbreviation
+  name: string;
+}
+
+export interface SampleEntry {
+  instrument: string;
+  pitchId: number;  // Note number of the recording
+  dynamics: string; // TinySOL dynamic, e.g. 'mf'
+  source: number;   // Bundled asset
+}
+
+export interface SamplePlayback {
+  sample: SampleEntry;
+  shiftCents: number; // How far the recording was moved to reach the target
+}
+
+export interface SampleOptions {
+  dynamics?: string;
+  volume?: number; // 0-1
+}
+
+// Loudness order of the TinySOL dynamics
+export const DYNAMICS = ['pp', 'p', 'mf', 'f', 'ff'];
+export const DEFAULT_DYNAMICS = 'mf';
+
+// TinySOL is recorded at A4 = 440 Hz in equal temperament
+const SAMPLE_REFERENCE = 440;
+
+const DEFAULT_VOLUME = 0.8;
+
+let currentSample: Audio.Sound | null = null;
+
+export function getSampleInstruments(): SampleInstrument[] {
+  return SAMPLE_INSTRUMENTS;
+}
+
+// Dynamics recorded for an instrument, softest first
+export function getSampleDynamics(instrument: string): string[] {
+  const recorded = new Set(SAMPLES.filter(s => s.instrument === instrument).map(s => s.dynamics));
+  return DYNAMICS.filter(d => recorded.has(d));
+}
+
+// Nearest recording to a (fractional) note number, then nearest in dynamics
+export function findSample(instrument: string, noteNumber: number, dynamics = DEFAULT_DYNAMICS): SampleEntry | null {
+  const wanted = DYNAMICS.indexOf(dynamics);
+  let best: SampleEntry | null = null;
+  let bestScore = Infinity;
+
+  for (const sample of SAMPLES) {
+    if (sample.instrument !== instrument) continue;
+    // Pitch distance dominates; dynamics only break ties between equally close notes
+    const score = 10 * Math.abs(sample.pitchId - noteNumber) +
+      Math.abs(DYNAMICS.indexOf(sample.dynamics) - wanted);
+    if (score < bestScore) {
+      bestScore = score;
+      best = sample;
+    }
+  }
+  return best;
+}
+
+export async function stopSample(): Promise<void> {
+  const sound = currentSample;
+  currentSample = null;
+  if (sound) {
+    await sound.unloadAsync().catch(() => {});
+  }
+}
+
+// Play an instrument's recording at a frequency, replacing any sample already
+// playing. Resolves with the sample used, or null when the instrument has none
+export async function playSample(
+  instrument: string,
+  frequency: number,
+  options: SampleOptions = {}
+): Promise<SamplePlayback | null> {
+  const noteNumber = 69 + 12 * Math.log2(frequency / SAMPLE_REFERENCE);
+  const sample = findSample(instrument, noteNumber, options.dynamics);
+  if (!sample) return null;
+
+  const recorded = SAMPLE_REFERENCE * Math.pow(2, (sample.pitchId - 69) / 12);
+  const rate = frequency / recorded;
+
+  await stopSample();
+  const { sound } = await Audio.Sound.createAsync(sample.source, {
+    volume: options.volume ?? DEFAULT_VOLUME
+  });
+  currentSample = sound;
+  // Without pitch correction the rate moves the pitch with the speed
+  await sound.setRateAsync(rate, false);
+  await sound.playAsync();
+  sound.setOnPlaybackStatusUpdate(status => {
+    if (status.isLoaded && status.didJustFinish && currentSample === sound) {
+      stopSample();
+    }
+  });
+
+  return { sample, shiftCents: 1200 * Math.log2(rate) };
+}
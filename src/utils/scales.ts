@@ -0,0 +1,168 @@
+// Scale and arpeggio practice: the player is walked through the notes of a
+// scale one at a time. A note counts once it has been held inside the
+// tolerance window for a moment, and the readings taken on it are kept for
+// the intonation summary.
+
+export interface ScaleType {
+  id: string;
+  name: string;
+  steps: number[];       // Semitones above the tonic within one octave, ascending
+  descending?: number[]; // Different notes on the way down, e.g. melodic minor
+}
+
+export type ScaleDirection = 'up' | 'updown';
+
+export interface ScaleExerciseOptions {
+  toleranceCents: number; // Half-width of the window a note must be held in
+  holdSeconds: number;    // How long it must stay there to count
+}
+
+export interface ScaleProgress {
+  index: number;            // Position in the targets
+  target: number;           // Note number being asked for
+  deviation: number | null; // Latest deviation from the target (cents), null when no stable note
+  held: number;             // Fraction of the hold time done
+  done: boolean;
+}
+
+export interface ScaleNoteResult {
+  target: number;
+  seconds: number;              // Time from the note coming up to it counting
+  meanDeviation: number | null; // Signed average of readings on the note (cents)
+}
+
+export interface ScaleExercise {
+  targets: number[];
+  add(pitch: number | null, time?: number): void; // Fractional note number of a stable reading
+  getProgress(time?: number): ScaleProgress;
+  getResults(): ScaleNoteResult[];                 // Notes completed so far
+}
+
+export const SCALE_TYPES: ScaleType[] = [
+  { id: 'major', name: 'Major', steps: [0, 2, 4, 5, 7, 9, 11] },
+  { id: 'natural-minor', name: 'Natural minor', steps: [0, 2, 3, 5, 7, 8, 10] },
+  { id: 'harmonic-minor', name: 'Harmonic minor', steps: [0, 2, 3, 5, 7, 8, 11] },
+  {
+    id: 'melodic-minor',
+    name: 'Melodic minor',
+    steps: [0, 2, 3, 5, 7, 9, 11],
+    descending: [0, 2, 3, 5, 7, 8, 10]
+  },
+  { id: 'dorian', name: 'Dorian', steps: [0, 2, 3, 5, 7, 9, 10] },
+  { id: 'phrygian', name: 'Phrygian', steps: [0, 1, 3, 5, 7, 8, 10] },
+  { id: 'lydian', name: 'Lydian', steps: [0, 2, 4, 6, 7, 9, 11] },
+  { id: 'mixolydian', name: 'Mixolydian', steps: [0, 2, 4, 5, 7, 9, 10] },
+  { id: 'locrian', name: 'Locrian', steps: [0, 1, 3, 5, 6, 8, 10] },
+  { id: 'chromatic', name: 'Chromatic', steps: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11] },
+  { id: 'major-pentatonic', name: 'Major pentatonic', steps: [0, 2, 4, 7, 9] },
+  { id: 'minor-pentatonic', name: 'Minor pentatonic', steps: [0, 3, 5, 7, 10] },
+  { id: 'major-arpeggio', name: 'Major arpeggio', steps: [0, 4, 7] },
+  { id: 'minor-arpeggio', name: 'Minor arpeggio', steps: [0, 3, 7] },
+  { id: 'dominant-7th', name: 'Dominant 7th arpeggio', steps: [0, 4, 7, 10] },
+  { id: 'diminished-7th', name: 'Diminished 7th arpeggio', steps: [0, 3, 6, 9] }
+];
+
+// The tuner only reports a stable note within 15 cents of the nearest note
+// (and drops it past 25), so a wider window could never be reached
+export const SCALE_TOLERANCE_OPTIONS = [5, 10, 15];
+export const SCALE_OCTAVE_OPTIONS = [1, 2, 3];
+
+// A reading counts until the next one, but no longer than this, so a
+// silence doesn't complete a note (ms)
+const MAX_READING_GAP_MS = 250;
+
+// Readings within this of the target are on the note and go into its average (cents)
+const ON_NOTE_CENTS = 50;
+
+export const getScaleType = (id: string) => SCALE_TYPES.find(type => type.id === id) ?? SCALE_TYPES[0];
+
+// Note numbers from the tonic over `octaves` octaves, ending on the tonic
+// above, and back down again for 'updown'
+export function buildScale(tonic: number, type: ScaleType, octaves: number, direction: ScaleDirection): number[] {
+  const climb = (steps: number[]) => {
+    const notes: number[] = [];
+    for (let octave = 0; octave < octaves; octave++) {
+      notes.push(...steps.map(step => tonic + 12 * octave + step));
+    }
+    notes.push(tonic + 12 * octaves);
+    return notes;
+  };
+
+  const ascending = climb(type.steps);
+  if (direction === 'up') return ascending;
+  // The top note is played once
+  const descending = climb(type.descending ?? type.steps).reverse().slice(1);
+  return [...ascending, ...descending];
+}
+
+export function createScaleExercise(
+  targets: number[],
+  options: ScaleExerciseOptions,
+  startTime = Date.now()
+): ScaleExercise {
+  const holdMs = options.holdSeconds * 1000;
+  const results: ScaleNoteResult[] = [];
+
+  let index = 0;
+  let noteStart = startTime;
+  let last: { time: number; deviation: number | null } | null = null;
+  let heldMs = 0;
+  let onNote = { sum: 0, count: 0 };
+
+  const inWindow = (deviation: number | null) =>
+    deviation !== null && Math.abs(deviation) <= options.toleranceCents;
+
+  // Time the previous reading has been held in the window, up to `time`
+  const heldSpan = (time: number) =>
+    last && inWindow(last.deviation) ? Math.max(0, Math.min(time, last.time + MAX_READING_GAP_MS) - last.time) : 0;
+
+  const completeNote = (time: number) => {
+    results.push({
+      target: targets[index],
+      seconds: (time - noteStart) / 1000,
+      meanDeviation: onNote.count ? onNote.sum / onNote.count : null
+    });
+    index++;
+    noteStart = time;
+    last = null;
+    heldMs = 0;
+    onNote = { sum: 0, count: 0 };
+  };
+
+  return {
+    targets,
+
+    add(pitch, time = Date.now()) {
+      if (index >= targets.length) return;
+      const deviation = pitch === null ? null : 100 * (pitch - targets[index]);
+
+      // Any break in the window starts the hold over
+      heldMs = inWindow(deviation) ? heldMs + heldSpan(time) : 0;
+      last = { time, deviation };
+      if (deviation !== null && Math.abs(deviation) < ON_NOTE_CENTS) {
+        onNote.sum += deviation;
+        onNote.count++;
+      }
+
+      if (heldMs >= holdMs) {
+        completeNote(time);
+      }
+    },
+
+    getProgress(time = Date.now()) {
+      const done = index >= targets.length;
+      const current = last && time - last.time <= MAX_READING_GAP_MS ? last.deviation : null;
+      return {
+        index: Math.min(index, targets.length - 1),
+        target: targets[Math.min(index, targets.length - 1)],
+        deviation: done ? null : current,
+        held: done ? 1 : Math.min(1, (heldMs + heldSpan(time)) / holdMs),
+        done
+      };
+    },
+
+    getResults() {
+      return [...results];
+    }
+  };
+}
@@ -0,0 +1,152 @@
+// Streaming front end for live pitch detection. Recorder events arrive in
+// whatever sizes the platform chooses; every sample is written to a ring
+// buffer and frames are cut from it at a fixed hop, each frame holding the
+// most recent samples up to its end. Frames therefore overlap, and the update
+// rate depends only on the hop.
+
+// A frame cut from the stream, ready for analysis
+export interface StreamFrame {
+  samples: Int16Array; // Up to frameSize samples ending at `time` (reused between frames)
+  time: number;        // Seconds since the stream started (or was reset)
+  pending: number;     // Complete hops still waiting behind this frame
+}
+
+export interface StreamingAnalyzerOptions {
+  sampleRate: number;
+  hopSeconds?: number;     // Time between frames
+  frameSize?: number;      // Longest frame handed to onFrame (samples)
+  maxLatencySeconds?: number; // Older hops are skipped when analysis falls behind
+  onFrame: (frame: StreamFrame) => void | Promise<void>;
+}
+
+export interface StreamingAnalyzer {
+  push: (chunk: Int16Array) => void;
+  reset: () => void;
+  setHopSeconds: (hopSeconds: number) => void;
+  getStats: () => StreamingStats;
+}
+
+export interface StreamingStats {
+  samples: number;       // Samples received since the last reset
+  frames: number;        // Frames analyzed
+  skippedFrames: number; // Hops dropped to catch up
+}
+
+export const DEFAULT_HOP_SECONDS = 0.015;
+const DEFAULT_FRAME_SIZE = 8192;
+const DEFAULT_MAX_LATENCY_SECONDS = 0.1;
+
+// Shortest and longest hop accepted (seconds)
+const MIN_HOP_SECONDS = 0.005;
+const MAX_HOP_SECONDS = 0.5;
+
+export function createStreamingAnalyzer(options: StreamingAnalyzerOptions): StreamingAnalyzer {
+  const { sampleRate, onFrame } = options;
+  const frameSize = options.frameSize ?? DEFAULT_FRAME_SIZE;
+  const maxLatency = Math.round((options.maxLatencySeconds ?? DEFAULT_MAX_LATENCY_SECONDS) * sampleRate);
+
+  // Room for a full frame plus the backlog we are prepared to catch up on
+  const ring = new Int16Array(frameSize + maxLatency);
+  const frameBuffer = new Int16Array(frameSize);
+
+  let hop = 0;
+  let written = 0;      // Total samples written since reset
+  let nextFrameEnd = 0; // Sample position the next frame ends at
+  let frames = 0;
+  let skippedFrames = 0;
+  let draining = false;
+  let generation = 0;   // Bumped by reset so an in-flight drain stops
+
+  const setHopSeconds = (hopSeconds: number) => {
+    const clamped = Math.min(MAX_HOP_SECONDS, Math.max(MIN_HOP_SECONDS, hopSeconds));
+    const previous = hop;
+    hop = Math.max(1, Math.round(clamped * sampleRate));
+    // Keep the next frame where it was due, measured from the last one
+    nextFrameEnd = previous ? nextFrameEnd - previous + hop : hop;
+  };
+
+  // Copy the samples ending at `end` out of the ring, oldest first
+  const readFrame = (end: number): Int16Array => {
+    const length = Math.min(frameSize, end);
+    const start = (end - length) % ring.length;
+    const firstPart = Math.min(length, ring.length - start);
+
+    frameBuffer.set(ring.subarray(start, start + firstPart), 0);
+    if (firstPart < length) {
+      frameBuffer.set(ring.subarray(0, length - firstPart), firstPart);
+    }
+    return frameBuffer.subarray(0, length);
+  };
+
+  // Analyze every complete hop, one frame at a time
+  const drain = async () => {
+    if (draining) return;
+    draining = true;
+    const current = generation;
+
+    try {
+      while (current === generation && nextFrameEnd <= written) {
+        // Too far behind: skip to the most recent frames the ring still holds
+        const behind = written - nextFrameEnd;
+        if (behind > maxLatency) {
+          const skip = Math.ceil((behind - maxLatency) / hop);
+          nextFrameEnd += skip * hop;
+          skippedFrames += skip;
+        }
+
+        const end = nextFrameEnd;
+        nextFrameEnd += hop;
+        frames++;
+
+        await onFrame({
+          samples: readFrame(end),
+          time: end / sampleRate,
+          pending: Math.max(0, Math.floor((written - nextFrameEnd) / hop) + 1)
+        });
+      }
+    } catch (error) {
+      console.error('Error analyzing stream frame:', error);
+    } finally {
+      draining = false;
+    }
+
+    // Samples may have arrived after a reset interrupted the loop
+    if (current !== generation && nextFrameEnd <= written) {
+      drain();
+    }
+  };
+
+  const push = (chunk: Int16Array) => {
+    // Only the newest samples can ever be read back
+    const data = chunk.length > ring.length ? chunk.subarray(chunk.length - ring.length) : chunk;
+    written += chunk.length - data.length;
+
+    let offset = 0;
+    while (offset < data.length) {
+      const position = written % ring.length;
+      const count = Math.min(data.length - offset, ring.length - position);
+      ring.set(data.subarray(offset, offset + count), position);
+      written += count;
+      offset += count;
+    }
+
+    drain();
+  };
+
+  const reset = () => {
+    generation++;
+    written = 0;
+    nextFrameEnd = hop;
+    frames = 0;
+    skippedFrames = 0;
+  };
+
+  setHopSeconds(options.hopSeconds ?? DEFAULT_HOP_SECONDS);
+
+  return {
+    push,
+    reset,
+    setHopSeconds,
+    getStats: () => ({ samples: written, frames, skippedFrames })
+  };
+}
@@ -0,0 +1,127 @@
+// Open-string tunings for the string tuning mode. Strings are listed from the
+// lowest-numbered course as players name them (violin G-D-A-E), at concert pitch.
+
+export interface OpenString {
+  note: string;   // Pitch class, e.g. 'G'
+  octave: number;
+}
+
+export interface StringSet {
+  id: string;
+  name: string;
+  strings: OpenString[];
+}
+
+// The nearest open string to a detected pitch
+export interface StringMatch {
+  index: number;  // Into the set's strings
+  cents: number;  // Deviation from that string's target
+}
+
+export const DEFAULT_STRING_SET_ID = 'violin';
+export const CUSTOM_STRING_SET_ID = 'custom';
+
+// Limits for custom sets
+export const MIN_STRINGS = 1;
+export const MAX_STRINGS = 8;
+export const LOWEST_STRING_OCTAVE = 0;
+export const HIGHEST_STRING_OCTAVE = 6;
+
+// Semitones the detector range reaches past the lowest and highest string in
+// string mode; a string being brought up to pitch can start well flat
+const STRING_RANGE_HEADROOM = 2;
+
+const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const strings = (...names: string[]): OpenString[] => names.map(name => parseStringName(name) as OpenString);
+
+export const STRING_SETS: StringSet[] = [
+  { id: 'violin', name: 'Violin', strings: strings('G3', 'D4', 'A4', 'E5') },
+  { id: 'viola', name: 'Viola', strings: strings('C3', 'G3', 'D4', 'A4') },
+  { id: 'cello', name: 'Cello', strings: strings('C2', 'G2', 'D3', 'A3') },
+  { id: 'bass', name: 'Double Bass', strings: strings('E1', 'A1', 'D2', 'G2') },
+  { id: 'guitar', name: 'Guitar', strings: strings('E2', 'A2', 'D3', 'G3', 'B3', 'E4') },
+  { id: 'ukulele', name: 'Ukulele', strings: strings('G4', 'C4', 'E4', 'A4') }
+];
+
+// Default custom set, a starting point for editing
+export const DEFAULT_CUSTOM_STRINGS: OpenString[] = strings('E2', 'A2', 'D3', 'G3', 'B3', 'E4');
+
+// "G3" -> { note: 'G', octave: 3 }, or null when it isn't a note name
+export function parseStringName(name: string): OpenString | null {
+  const match = /^([A-G]#?)(-?\d)$/.exec(name.trim());
+  if (!match || !ALL_NOTES.includes(match[1])) return null;
+  return { note: match[1], octave: Number(match[2]) };
+}
+
+export function formatString(string: OpenString): string {
+  return `${string.note}${string.octave}`;
+}
+
+// Find a preset by id, falling back to the default set
+export function getStringSet(id: string): StringSet {
+  return STRING_SETS.find(set => set.id === id) ?? STRING_SETS[0];
+}
+
+// Move a string up or down by semitones, within the custom-set limits
+export function shiftString(string: OpenString, semitones: number): OpenString {
+  const index = ALL_NOTES.indexOf(string.note);
+  const lowest = 12 * LOWEST_STRING_OCTAVE;
+  const highest = 12 * HIGHEST_STRING_OCTAVE + 11;
+  const shifted = Math.min(highest, Math.max(lowest, 12 * string.octave + index + semitones));
+  return { note: ALL_NOTES[shifted % 12], octave: Math.floor(shifted / 12) };
+}
+
+// A stored string with a known note and an octave within the limits
+function isOpenString(value: unknown): value is OpenString {
+  if (typeof value !== 'object' || value === null) return false;
+  const { note, octave } = value as Record<string, unknown>;
+  return typeof note === 'string' && ALL_NOTES.includes(note) &&
+    typeof octave === 'number' && Number.isInteger(octave) &&
+    octave >= LOWEST_STRING_OCTAVE && octave <= HIGHEST_STRING_OCTAVE;
+}
+
+// Keep only well-formed strings within the limits, and at least one
+export function sanitizeStrings(value: unknown): OpenString[] {
+  if (!Array.isArray(value)) return DEFAULT_CUSTOM_STRINGS;
+  const clean = value
+    .filter(isOpenString)
+    .map(({ note, octave }) => ({ note, octave }))
+    .slice(0, MAX_STRINGS);
+  return clean.length >= MIN_STRINGS ? clean : DEFAULT_CUSTOM_STRINGS;
+}
+
+// Frequency range (Hz) that reaches every string of a set, in equal
+// temperament at the given concert pitch, with headroom either side
+export function getStringRange(
+  openStrings: OpenString[],
+  referenceFrequency: number
+): { minFrequency: number; maxFrequency: number } {
+  const semitones = openStrings.map(({ note, octave }) => 12 * octave + ALL_NOTES.indexOf(note) - 57);
+  const frequency = (fromA4: number) => referenceFrequency * Math.pow(2, fromA4 / 12);
+  return {
+    minFrequency: frequency(Math.min(...semitones) - STRING_RANGE_HEADROOM),
+    maxFrequency: frequency(Math.max(...semitones) + STRING_RANGE_HEADROOM)
+  };
+}
+
+// The open string closest to a frequency (in cents). `targetFrequency` gives
+// each string's tuned frequency, so it follows concert pitch and temperament
+export function findNearestString(
+  openStrings: OpenString[],
+  frequency: number,
+  targetFrequency: (string: OpenString) => number | null
+): StringMatch | null {
+  let best: StringMatch | null = null;
+
+  openStrings.forEach((string, index) => {
+    const target = targetFrequency(string);
+    if (!target) return;
+    const cents = 1200 * Math.log2(frequency / target);
+    if (!best || Math.abs(cents) < Math.abs(best.cents)) {
+      best = { index, cents };
+    }
+  });
+
+  return best;
+}
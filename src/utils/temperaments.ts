@@ -0,0 +1,118 @@
+// Historical temperaments and custom tuning tables.
+// Each table lists the size in cents of every scale degree above the tonic,
+// so degree 0 is the tonic itself and degree 7 is the fifth.
+
+export interface Temperament {
+  id: string;
+  name: string;
+  cents: number[]; // 12 entries, cents above the tonic
+}
+
+// Pitch class names, C = 0
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Convert a frequency ratio to cents
+function ratioToCents(ratio: number): number {
+  return 1200 * Math.log2(ratio);
+}
+
+export const EQUAL_TEMPERAMENT_ID = 'equal';
+export const CUSTOM_TEMPERAMENT_ID = 'custom';
+
+export const TEMPERAMENTS: Temperament[] = [
+  {
+    id: EQUAL_TEMPERAMENT_ID,
+    name: 'Equal Temperament',
+    cents: [0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100]
+  },
+  {
+    // Pure fifths from Eb to G#, wolf fifth between G# and Eb
+    id: 'pythagorean',
+    name: 'Pythagorean',
+    cents: [1, 2187 / 2048, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 6561 / 4096, 27 / 16, 16 / 9, 243 / 128]
+      .map(ratioToCents)
+  },
+  {
+    // Fifths narrowed by a quarter syntonic comma, pure major thirds
+    id: 'meantone',
+    name: 'Quarter-Comma Meantone',
+    cents: [0, 76.0, 193.2, 310.3, 386.3, 503.4, 579.5, 696.6, 772.6, 889.7, 1006.8, 1082.9]
+  },
+  {
+    id: 'werckmeister3',
+    name: 'Werckmeister III',
+    cents: [0, 90.2, 192.2, 294.1, 390.2, 498.0, 588.3, 696.1, 792.2, 888.3, 996.1, 1092.2]
+  },
+  {
+    id: 'kirnberger3',
+    name: 'Kirnberger III',
+    cents: [0, 90.2, 193.2, 294.1, 386.3, 498.0, 590.2, 696.6, 792.2, 889.7, 996.1, 1088.3]
+  },
+  {
+    id: 'vallotti',
+    name: 'Vallotti',
+    cents: [0, 94.1, 196.1, 298.0, 392.2, 502.0, 592.2, 698.0, 796.1, 894.1, 1000.0, 1090.2]
+  },
+  {
+    // 5-limit just intonation
+    id: 'just',
+    name: 'Just Intonation',
+    cents: [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8]
+      .map(ratioToCents)
+  }
+];
+
+// Largest deviation from equal temperament allowed in a custom table
+export const MAX_CUSTOM_DEVIATION = 50;
+
+// Find a temperament by id, falling back to equal temperament
+export function getTemperament(id: string): Temperament {
+  return TEMPERAMENTS.find(t => t.id === id) ?? TEMPERAMENTS[0];
+}
+
+// Human readable label such as "Werckmeister III (C)"
+export function getTemperamentLabel(id: string, tonic: string): string {
+  if (id === CUSTOM_TEMPERAMENT_ID) {
+    return `Custom (${tonic})`;
+  }
+  if (id === EQUAL_TEMPERAMENT_ID) {
+    return getTemperament(id).name;
+  }
+  return `${getTemperament(id).name} (${tonic})`;
+}
+
+// Deviations from equal temperament (cents) for every scale degree above the tonic
+export function getDegreeDeviations(id: string, customDeviations?: number[]): number[] {
+  if (id === CUSTOM_TEMPERAMENT_ID) {
+    const deviations = new Array(12).fill(0);
+    for (let i = 0; i < 12; i++) {
+      const value = customDeviations?.[i];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        deviations[i] = Math.max(-MAX_CUSTOM_DEVIATION, Math.min(MAX_CUSTOM_DEVIATION, value));
+      }
+    }
+    return deviations;
+  }
+
+  return getTemperament(id).cents.map((cents, degree) => cents - degree * 100);
+}
+
+// Per pitch class (C = 0) offsets in cents from equal temperament.
+// The table is rotated onto the tonic and shifted so that A keeps the
+// concert pitch, which is how tuners for historical temperaments are set.
+export function getTemperamentOffsets(
+  id: string,
+  tonic: string,
+  customDeviations?: number[]
+): number[] {
+  const tonicIndex = Math.max(0, PITCH_CLASSES.indexOf(tonic));
+  const deviations = getDegreeDeviations(id, customDeviations);
+
+  const offsets = new Array(12).fill(0);
+  for (let degree = 0; degree < 12; degree++) {
+    offsets[(tonicIndex + degree) % 12] = deviations[degree];
+  }
+
+  const aOffset = offsets[9];
+  return offsets.map(offset => offset - aOffset);
+}
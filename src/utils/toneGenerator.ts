@@ -0,0 +1,235 @@
+// Synthesized reference tones and drones. Tones are rendered to 16-bit mono
+// WAV files in the cache directory once, then played with expo-av.
+
+import { Audio } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { encode as btoa } from 'base-64';
+
+export type Timbre = 'piano' | 'sine' | 'organ' | 'reed';
+
+export interface ToneOptions {
+  seconds?: number;
+  volume?: number; // 0-1
+  timbre?: Timbre;
+}
+
+// Relative amplitude and decay rate (per second) of each harmonic
+interface Partial {
+  amplitude: number;
+  decay: number;
+}
+
+// Sample rate of every rendered file, which cacheWav writes at
+export const SAMPLE_RATE = 22050;
+const DEFAULT_SECONDS = 1.5;
+const DEFAULT_VOLUME = 0.6;
+
+// Peak level of the rendered files; playback volume is applied by the player
+const RENDER_LEVEL = 0.8;
+
+const TIMBRE_PARTIALS: Record<Timbre, Partial[]> = {
+  // Soft and decaying, upper partials fading first
+  piano: [
+    { amplitude: 1, decay: 1.2 },
+    { amplitude: 0.45, decay: 2 },
+    { amplitude: 0.25, decay: 3 },
+    { amplitude: 0.12, decay: 4 }
+  ],
+  sine: [{ amplitude: 1, decay: 0 }],
+  // Drawbar-like: octaves and twelfths over the fundamental
+  organ: [1, 0.5, 0.35, 0.3, 0, 0.15, 0, 0.1].map(amplitude => ({ amplitude, decay: 0 })),
+  // Bright, with slowly falling harmonics like a harmonium reed
+  reed: [1, 0.7, 0.55, 0.45, 0.35, 0.3, 0.24, 0.18, 0.14, 0.1].map(amplitude => ({ amplitude, decay: 0 }))
+};
+
+// Timbres offered for reference tones
+export const REFERENCE_TIMBRES: { id: Timbre; name: string }[] = [
+  { id: 'sine', name: 'Sine' },
+  { id: 'organ', name: 'Organ' },
+  { id: 'reed', name: 'Reed' }
+];
+
+const ATTACK_SECONDS = 0.02;
+const RELEASE_SECONDS = 0.05;
+
+// A drone loops a buffer of whole cycles so the loop point is seamless;
+// its length is picked in this range to fit the frequency best (seconds)
+const MIN_LOOP_SECONDS = 2;
+const MAX_LOOP_SECONDS = 4;
+
+// Characters per String.fromCharCode call when building the base64 input
+const CHUNK_SIZE = 8192;
+
+let currentSound: Audio.Sound | null = null;
+let currentDrone: Audio.Sound | null = null;
+
+// Bumped by every drone start and stop, so a start that finishes loading
+// after a later call doesn't keep sounding
+let droneGeneration = 0;
+
+// Wrap float samples in [-1, 1] as a 16-bit mono WAV file
+export function encodeWav(samples: Float32Array, sampleRate = SAMPLE_RATE): Uint8Array {
+  const bytes = new Uint8Array(44 + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true);              // Block align
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, Math.round(sample * 32767), true);
+  }
+  return bytes;
+}
+
+// Sum the timbre's harmonics over `length` samples, without an envelope
+function renderPartials(frequency: number, length: number, timbre: Timbre): Float32Array {
+  const partials = TIMBRE_PARTIALS[timbre];
+  const samples = new Float32Array(length);
+  const nyquist = SAMPLE_RATE / 2;
+  const total = partials.reduce((sum, p) => sum + p.amplitude, 0);
+
+  partials.forEach((partial, k) => {
+    const f = frequency * (k + 1);
+    if (!partial.amplitude || f >= nyquist) return;
+    const step = 2 * Math.PI * f / SAMPLE_RATE;
+    for (let i = 0; i < length; i++) {
+      samples[i] += partial.amplitude * Math.exp(-partial.decay * i / SAMPLE_RATE) * Math.sin(step * i);
+    }
+  });
+
+  for (let i = 0; i < length; i++) {
+    samples[i] *= RENDER_LEVEL / total;
+  }
+  return samples;
+}
+
+// Render one note with a short attack and release
+export function renderTone(frequency: number, seconds = DEFAULT_SECONDS, timbre: Timbre = 'piano'): Float32Array {
+  const length = Math.round(seconds * SAMPLE_RATE);
+  const samples = renderPartials(frequency, length, timbre);
+
+  for (let i = 0; i < length; i++) {
+    const t = i / SAMPLE_RATE;
+    samples[i] *= Math.min(1, t / ATTACK_SECONDS, (seconds - t) / RELEASE_SECONDS);
+  }
+  return samples;
+}
+
+// Render a loop for a sustained drone. The loop holds a whole number of
+// cycles; its length is chosen so that rounding moves the pitch least
+export function renderDroneLoop(frequency: number, timbre: Timbre): Float32Array {
+  let bestLength = MIN_LOOP_SECONDS * SAMPLE_RATE;
+  let bestError = Infinity;
+  for (let length = MIN_LOOP_SECONDS * SAMPLE_RATE; length <= MAX_LOOP_SECONDS * SAMPLE_RATE; length++) {
+    const cycles = length * frequency / SAMPLE_RATE;
+    const error = Math.abs(cycles - Math.round(cycles));
+    if (error < bestError) {
+      bestError = error;
+      bestLength = length;
+    }
+  }
+
+  const cycles = Math.round(bestLength * frequency / SAMPLE_RATE);
+  return renderPartials(cycles * SAMPLE_RATE / bestLength, bestLength, timbre);
+}
+
+// Write a WAV file to the cache unless it is already there, and return its uri
+export async function cacheWav(name: string, render: () => Float32Array): Promise<string> {
+  const uri = `${FileSystem.cacheDirectory}${name}.wav`;
+  const info = await FileSystem.getInfoAsync(uri);
+  if (info.exists) return uri;
+
+  const bytes = encodeWav(render());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  await FileSystem.writeAsStringAsync(uri, btoa(binary), {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return uri;
+}
+
+// Stop whatever tone is playing
+export async function stopTone(): Promise<void> {
+  const sound = currentSound;
+  currentSound = null;
+  if (sound) {
+    await sound.unloadAsync().catch(() => {});
+  }
+}
+
+// Play a tone, replacing any tone already playing. Resolves once it starts
+export async function playTone(frequency: number, options: ToneOptions = {}): Promise<void> {
+  const seconds = options.seconds ?? DEFAULT_SECONDS;
+  const timbre = options.timbre ?? 'piano';
+  const uri = await cacheWav(
+    `tone-${timbre}-${frequency.toFixed(2)}-${seconds}`,
+    () => renderTone(frequency, seconds, timbre)
+  );
+
+  await stopTone();
+  const { sound } = await Audio.Sound.createAsync(
+    { uri },
+    { shouldPlay: true, volume: options.volume ?? DEFAULT_VOLUME }
+  );
+  currentSound = sound;
+  sound.setOnPlaybackStatusUpdate(status => {
+    if (status.isLoaded && status.didJustFinish && currentSound === sound) {
+      stopTone();
+    }
+  });
+}
+
+export async function stopDrone(): Promise<void> {
+  droneGeneration++;
+  const sound = currentDrone;
+  currentDrone = null;
+  if (sound) {
+    await sound.unloadAsync().catch(() => {});
+  }
+}
+
+// Sustain a pitch until stopDrone, replacing any drone already sounding
+export async function startDrone(frequency: number, options: ToneOptions = {}): Promise<void> {
+  const generation = ++droneGeneration;
+  const timbre = options.timbre ?? 'sine';
+  const uri = await cacheWav(
+    `drone-${timbre}-${frequency.toFixed(2)}`,
+    () => renderDroneLoop(frequency, timbre)
+  );
+  if (generation !== droneGeneration) return;
+
+  const { sound } = await Audio.Sound.createAsync(
+    { uri },
+    { shouldPlay: true, isLooping: true, volume: options.volume ?? DEFAULT_VOLUME }
+  );
+  if (generation !== droneGeneration) {
+    await sound.unloadAsync().catch(() => {});
+    return;
+  }
+
+  // Swap over without bumping the generation
+  const previous = currentDrone;
+  currentDrone = sound;
+  await previous?.unloadAsync().catch(() => {});
+}
+
+export async function setDroneVolume(volume: number): Promise<void> {
+  await currentDrone?.setVolumeAsync(volume);
+}
@@ -0,0 +1,54 @@
+import type { NotePitch } from './pitchAnalyzer';
+
+// Transposing instruments: written pitch = concert pitch + semitones
+export interface Transposition {
+  id: string;
+  name: string;
+  semitones: number;
+}
+
+const ALL_NOTES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export const CONCERT_PITCH_ID = 'C';
+
+export const TRANSPOSITIONS: Transposition[] = [
+  { id: CONCERT_PITCH_ID, name: 'Concert Pitch (C)', semitones: 0 },
+  { id: 'Bb', name: 'B♭ (Clarinet, Trumpet)', semitones: 2 },
+  { id: 'Bb-octave', name: 'B♭ + octave (Tenor Sax, Bass Clarinet)', semitones: 14 },
+  { id: 'Eb', name: 'E♭ (Alto Sax)', semitones: 9 },
+  { id: 'Eb-octave', name: 'E♭ + octave (Baritone Sax)', semitones: 21 },
+  { id: 'Eb-high', name: 'E♭ (E♭ Clarinet)', semitones: -3 },
+  { id: 'F', name: 'F (Horn, English Horn)', semitones: 7 },
+  { id: 'A', name: 'A (A Clarinet)', semitones: 3 }
+];
+
+// Find a transposition by id, falling back to concert pitch
+export function getTransposition(id: string): Transposition {
+  return TRANSPOSITIONS.find(t => t.id === id) ?? TRANSPOSITIONS[0];
+}
+
+// Shift a note name and octave by a number of semitones
+export function transposeNote(note: string, octave: number, semitones: number): { note: string; octave: number } {
+  const index = ALL_NOTES.indexOf(note);
+  if (index < 0) {
+    return { note, octave };
+  }
+  const shifted = 12 * octave + index + semitones;
+  return {
+    note: ALL_NOTES[((shifted % 12) + 12) % 12],
+    octave: Math.floor(shifted / 12)
+  };
+}
+
+// Show a detected (concert) pitch in written pitch. Frequency and cents are unchanged
+export function toWrittenPitch(pitch: NotePitch, semitones: number): NotePitch {
+  if (!semitones) {
+    return pitch;
+  }
+  return { ...pitch, ...transposeNote(pitch.note, pitch.octave, semitones) };
+}
+
+// Concert (sounding) note for a written note
+export function toConcertNote(note: string, octave: number, semitones: number): { note: string; octave: number } {
+  return transposeNote(note, octave, -semitones);
+}
@@ -0,0 +1,240 @@
+// Decode RIFF/WAVE and AIFF/AIFC files into mono 16-bit PCM, the format
+// detectPitch consumes. Supports integer PCM (8, 16, 24 and 32 bit), 32/64-bit
+// float and WAVE_FORMAT_EXTENSIBLE files; multi-channel audio is mixed down to mono.
+
+export interface DecodedAudio {
+  sampleRate: number;
+  channels: number;      // Channel count of the source file
+  samples: Int16Array;   // Mono PCM
+  duration: number;      // Seconds
+}
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+// Read one sample as a float in [-1, 1]
+function readSample(
+  view: DataView,
+  offset: number,
+  isFloat: boolean,
+  bitsPerSample: number,
+  littleEndian: boolean,
+  unsigned8Bit: boolean
+): number {
+  if (isFloat) {
+    return bitsPerSample === 64
+      ? view.getFloat64(offset, littleEndian)
+      : view.getFloat32(offset, littleEndian);
+  }
+
+  switch (bitsPerSample) {
+    case 8:
+      // 8-bit WAV is unsigned, 8-bit AIFF is signed
+      return unsigned8Bit
+        ? (view.getUint8(offset) - 128) / 128
+        : view.getInt8(offset) / 128;
+    case 16:
+      return view.getInt16(offset, littleEndian) / 32768;
+    case 24: {
+      const value = littleEndian
+        ? view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16)
+        : (view.getInt8(offset) << 16) | (view.getUint8(offset + 1) << 8) | view.getUint8(offset + 2);
+      return value / 8388608;
+    }
+    case 32:
+      return view.getInt32(offset, littleEndian) / 2147483648;
+    default:
+      throw new Error(`Unsupported bit depth: ${bitsPerSample}`);
+  }
+}
+
+// Mix interleaved frames down to mono 16-bit PCM
+function toMonoPCM(
+  view: DataView,
+  dataOffset: number,
+  frameCount: number,
+  channels: number,
+  bitsPerSample: number,
+  blockAlign: number,
+  isFloat: boolean,
+  littleEndian: boolean,
+  unsigned8Bit: boolean
+): Int16Array {
+  const bytesPerSample = bitsPerSample / 8;
+  const samples = new Int16Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const frameOffset = dataOffset + frame * blockAlign;
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += readSample(view, frameOffset + channel * bytesPerSample, isFloat, bitsPerSample, littleEndian, unsigned8Bit);
+    }
+    const mono = Math.max(-1, Math.min(1, sum / channels));
+    samples[frame] = Math.round(mono * 32767);
+  }
+
+  return samples;
+}
+
+// AIFF stores the sample rate as an 80-bit extended float
+function readExtended(view: DataView, offset: number): number {
+  const exponent = view.getUint16(offset) & 0x7fff;
+  const hiMantissa = view.getUint32(offset + 2);
+  const loMantissa = view.getUint32(offset + 6);
+  if (exponent === 0 && hiMantissa === 0 && loMantissa === 0) {
+    return 0;
+  }
+  return (hiMantissa * Math.pow(2, 32) + loMantissa) * Math.pow(2, exponent - 16383 - 63);
+}
+
+// Decode a WAV file held in memory
+export function decodeWav(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (bytes.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let blockAlign = 0;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Walk the chunk list; chunks are padded to an even length
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      blockAlign = view.getUint16(body + 12, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+
+      // The real format code is the first two bytes of the sub-format GUID
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true);
+      }
+    } else if (id === 'data') {
+      dataOffset = body;
+      // Some recorders leave the size unset while streaming
+      dataLength = Math.min(size, bytes.byteLength - body);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  if (format !== WAVE_FORMAT_PCM && format !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`Unsupported WAV format code: ${format}`);
+  }
+  if (dataOffset < 0 || channels === 0 || sampleRate === 0 || blockAlign === 0) {
+    throw new Error('WAV file is missing its format or data chunk');
+  }
+
+  const frameCount = Math.floor(dataLength / blockAlign);
+  const samples = toMonoPCM(
+    view, dataOffset, frameCount, channels, bitsPerSample, blockAlign,
+    format === WAVE_FORMAT_IEEE_FLOAT, true, true
+  );
+
+  return {
+    sampleRate,
+    channels,
+    samples,
+    duration: frameCount / sampleRate
+  };
+}
+
+// Decode an AIFF or AIFC file held in memory
+export function decodeAiff(bytes: Uint8Array): DecodedAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const formType = bytes.byteLength >= 12 ? readTag(view, 8) : '';
+
+  if (readTag(view, 0) !== 'FORM' || (formType !== 'AIFF' && formType !== 'AIFC')) {
+    throw new Error('Not an AIFF file');
+  }
+
+  let channels = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let compression = 'NONE';
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Same chunk layout as RIFF, but big-endian
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = readTag(view, offset);
+    const size = view.getUint32(offset + 4);
+    const body = offset + 8;
+
+    if (id === 'COMM') {
+      channels = view.getUint16(body);
+      bitsPerSample = view.getUint16(body + 6);
+      sampleRate = readExtended(view, body + 8);
+      if (formType === 'AIFC' && size >= 22) {
+        compression = readTag(view, body + 18);
+      }
+    } else if (id === 'SSND') {
+      // The sound data starts after an offset/block-size header
+      const dataStart = view.getUint32(body);
+      dataOffset = body + 8 + dataStart;
+      dataLength = Math.min(size - 8 - dataStart, bytes.byteLength - dataOffset);
+    }
+
+    offset = body + size + (size % 2);
+  }
+
+  // 'sowt' is little-endian PCM, 'fl32'/'fl64' are big-endian floats
+  const littleEndian = compression === 'sowt';
+  const isFloat = compression === 'fl32' || compression === 'FL32' ||
+    compression === 'fl64' || compression === 'FL64';
+  if (compression !== 'NONE' && compression !== 'twos' && !littleEndian && !isFloat) {
+    throw new Error(`Unsupported AIFF compression: ${compression}`);
+  }
+  if (dataOffset < 0 || channels === 0 || sampleRate === 0 || bitsPerSample === 0) {
+    throw new Error('AIFF file is missing its COMM or SSND chunk');
+  }
+
+  const blockAlign = channels * Math.ceil(bitsPerSample / 8);
+  const frameCount = Math.floor(dataLength / blockAlign);
+  const samples = toMonoPCM(
+    view, dataOffset, frameCount, channels, Math.ceil(bitsPerSample / 8) * 8, blockAlign,
+    isFloat, littleEndian, false
+  );
+
+  return {
+    sampleRate,
+    channels,
+    samples,
+    duration: frameCount / sampleRate
+  };
+}
+
+// Decode any supported file, detected from its header
+export function decodeAudioFile(bytes: Uint8Array): DecodedAudio {
+  const header = String.fromCharCode(...Array.from(bytes.subarray(0, 4)));
+  if (header === 'RIFF') {
+    return decodeWav(bytes);
+  }
+  if (header === 'FORM') {
+    return decodeAiff(bytes);
+  }
+  throw new Error('Unsupported audio file. Please choose a WAV or AIFF file.');
+}